@@ -1,7 +1,7 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnInit, inject } from '@angular/core';
 import { FormsModule } from '@angular/forms';
-import type { Comment, Post, User, DenormalizedPost, DenormalizedComment } from '../../models';
+import type { Comment, User, DenormalizedPost, DenormalizedComment } from '../../models';
 import { NormalizedBlogStore } from '../../store/normalized-blog.store';
 
 @Component({
@@ -155,31 +155,31 @@ export class NormalizedBlogDemoComponent implements OnInit {
 
   // Computed properties for display
   get usersJson(): string {
-    return JSON.stringify(this.store['usersEntityMap']?.(), null, 2);
+    return JSON.stringify(this.store.entities()['users'], null, 2);
   }
 
   get commentsJson(): string {
-    return JSON.stringify(this.store['commentsEntityMap']?.(), null, 2);
+    return JSON.stringify(this.store.entities()['comments'], null, 2);
   }
 
   get postsJson(): string {
-    return JSON.stringify(this.store['postsEntityMap']?.(), null, 2);
+    return JSON.stringify(this.store.entities()['posts'], null, 2);
   }
 
   get denormalizedPostsJson(): string {
-    return JSON.stringify(this.store['getAllPosts'](), null, 2);
+    return JSON.stringify(this.store.getAllPosts(), null, 2);
   }
 
   get users(): User[] {
-    return this.store['getAllUsers']();
+    return this.store.getAllUsers();
   }
 
   get posts(): DenormalizedPost[] {
-    return this.store['getAllPosts']();
+    return this.store.getAllPosts();
   }
 
   get comments(): DenormalizedComment[] {
-    return this.store['getAllComments']();
+    return this.store.getAllComments();
   }
 
   ngOnInit(): void {
@@ -1,5 +1,6 @@
 export interface Comment {
   id: string;
   author: string; // username reference to User
+  post?: string; // id reference to the Post the comment belongs to
   comment: string;
 }
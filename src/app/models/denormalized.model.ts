@@ -1,10 +1,11 @@
 import { Comment, Post, User } from './';
 
 /**
- * Interface for a denormalized comment with author object
+ * Interface for a denormalized comment with author and post objects
  */
-export interface DenormalizedComment extends Omit<Comment, 'author'> {
+export interface DenormalizedComment extends Omit<Comment, 'author' | 'post'> {
   author: User;
+  post?: DenormalizedPost;
 }
 
 /**
@@ -88,26 +88,9 @@ export function normalizeBlogData(blogPosts: NestedPost[]): {
     })
   };
 
-  // Transform nested data to match expected format
-  const transformedData = blogPosts.map(post => {
-    // Transform comments to match Comment model
-    const transformedComments = post.comments.map(comment => ({
-      id: comment.id,
-      author: comment.author.username,
-      comment: comment.comment
-    }));
-
-    // Transform post to match Post model
-    return {
-      id: post.id,
-      author: post.author.username,
-      body: post.body,
-      comments: transformedComments
-    };
-  });
-
-  // Normalize the data
-  const normalizedData = normalize(transformedData, 'posts', schemaMap);
+  // Normalize the nested data, nested authors and comments are extracted
+  // into their own collections
+  const normalizedData = normalize(blogPosts, 'posts', schemaMap);
 
   // Extract the normalized entities
   const entities = normalizedData.entities;
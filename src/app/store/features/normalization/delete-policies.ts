@@ -0,0 +1,113 @@
+import { EntitiesDraft } from './entities-draft';
+import { InverseRelationship, syncInverseRelationships } from './inverse';
+import {
+  findReferrers,
+  IncomingRelationship,
+  Referrer,
+  unlinkReference,
+} from './references';
+import { EntityReference, EntitySchemaMap, OperationResult } from './schema';
+
+/**
+ * Removes an entity and applies the `onDelete` policies of every
+ * relationship referencing it: referencing entities are removed (`cascade`),
+ * their references are cleared (`nullify`), or the whole removal is refused
+ * (`restrict`). Nothing is changed when the removal fails
+ *
+ * @param draft The entities being changed
+ * @param schemaMap The schema map
+ * @param incoming The incoming relationships of the schema map
+ * @param inverses The inverse relationships of the schema map
+ * @param target The entity to remove
+ * @returns The removed entities, starting with the target
+ */
+export function removeWithPolicies(
+  draft: EntitiesDraft,
+  schemaMap: EntitySchemaMap,
+  incoming: Record<string, IncomingRelationship[]>,
+  inverses: Record<string, InverseRelationship[]>,
+  target: EntityReference
+): OperationResult<EntityReference[]> {
+  if (!draft.has(target.type, target.id)) {
+    return {
+      success: false,
+      error: `Entity with ID ${target.id} not found in collection ${target.type}`,
+    };
+  }
+
+  // Collect the target and every entity removed along with it
+  const removals: { reference: EntityReference; referrers: Referrer[] }[] = [];
+  const removedKeys = new Set<string>();
+  const keyOf = (type: string, id: unknown) => `${type}:${id}`;
+  const queue: EntityReference[] = [target];
+
+  while (queue.length > 0) {
+    const reference = queue.shift() as EntityReference;
+    const key = keyOf(reference.type, reference.id);
+    if (removedKeys.has(key) || !draft.has(reference.type, reference.id)) {
+      continue;
+    }
+
+    const referrers = findReferrers(draft, schemaMap, incoming, reference);
+    removedKeys.add(key);
+    removals.push({ reference, referrers });
+
+    referrers
+      .filter((referrer) => referrer.relationship.onDelete === 'cascade')
+      .forEach((referrer) =>
+        queue.push({ type: referrer.entityType, id: referrer.id })
+      );
+  }
+
+  // Entities that are removed themselves do not hold on to references
+  const remainingReferrers = removals.map(({ reference, referrers }) => ({
+    reference,
+    referrers: referrers.filter(
+      (referrer) => !removedKeys.has(keyOf(referrer.entityType, referrer.id))
+    ),
+  }));
+
+  // Refuse the removal while a restricting reference remains
+  for (const { reference, referrers } of remainingReferrers) {
+    const restricting = referrers.find(
+      (referrer) => referrer.relationship.onDelete === 'restrict'
+    );
+    if (restricting) {
+      return {
+        success: false,
+        error: `Cannot remove ${reference.type} '${reference.id}': it is referenced by ${restricting.entityType} '${restricting.id}' through '${restricting.key}'`,
+      };
+    }
+  }
+
+  // Clear nullified references
+  remainingReferrers.forEach(({ reference, referrers }) =>
+    referrers
+      .filter((referrer) => referrer.relationship.onDelete === 'nullify')
+      .forEach((referrer) => unlinkReference(draft, referrer, reference))
+  );
+
+  // Remove the entities, then drop the back-references to them
+  const previous = removals.map(({ reference }) =>
+    draft.get(reference.type, reference.id)
+  );
+  removals.forEach(({ reference }) =>
+    draft.remove(reference.type, reference.id)
+  );
+  removals.forEach(({ reference }, index) =>
+    syncInverseRelationships(
+      draft,
+      schemaMap,
+      inverses,
+      reference.type,
+      reference.id,
+      previous[index],
+      undefined
+    )
+  );
+
+  return {
+    success: true,
+    data: removals.map(({ reference }) => reference),
+  };
+}
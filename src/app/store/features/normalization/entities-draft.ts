@@ -0,0 +1,73 @@
+import { EntityId, EntityMap } from './schema';
+
+/**
+ * Mutable working copy of the entity collections. Collections are copied
+ * the first time they are changed, untouched collections keep their identity
+ */
+export interface EntitiesDraft {
+  /**
+   * Reads an entity, including the changes made through the draft
+   */
+  get(entityType: string, id: EntityId): unknown;
+
+  /**
+   * Checks whether an entity exists in the draft
+   */
+  has(entityType: string, id: EntityId): boolean;
+
+  /**
+   * Lists the IDs and entities of a collection
+   */
+  entries(entityType: string): [string, unknown][];
+
+  /**
+   * Stores an entity
+   */
+  set(entityType: string, id: EntityId, entity: unknown): void;
+
+  /**
+   * Removes an entity
+   */
+  remove(entityType: string, id: EntityId): void;
+
+  /**
+   * Returns the entity collections with all changes applied
+   */
+  finish(): Record<string, EntityMap<unknown>>;
+}
+
+/**
+ * Creates a draft of the entity collections
+ *
+ * @param base The current entity collections, which are never mutated
+ * @returns The draft
+ */
+export function createEntitiesDraft(
+  base: Record<string, EntityMap<unknown>>
+): EntitiesDraft {
+  const entities = { ...base };
+  const copied = new Set<string>();
+
+  // Copy a collection before its first change
+  function writableCollection(entityType: string): EntityMap<unknown> {
+    if (!copied.has(entityType)) {
+      entities[entityType] = { ...entities[entityType] };
+      copied.add(entityType);
+    }
+    return entities[entityType];
+  }
+
+  return {
+    get: (entityType, id) => entities[entityType]?.[id],
+    has: (entityType, id) =>
+      !!entities[entityType] && id in entities[entityType],
+    entries: (entityType) => Object.entries(entities[entityType] ?? {}),
+    set(entityType, id, entity) {
+      writableCollection(entityType)[id] = entity;
+    },
+    remove(entityType, id) {
+      delete writableCollection(entityType)[id];
+    },
+    finish: () => entities,
+  };
+}
@@ -0,0 +1,54 @@
+import { EntityPatch } from './entity-patches';
+
+/**
+ * Why the entities change, for the features watching them
+ *
+ * - `optimistic`: an optimistic change is applied, `id` identifies it
+ * - `rollback`: the optimistic change `id`, made of `patches`, is reverted
+ *   because its request failed
+ * - `restore`: entities are restored, for example from a storage, which is
+ *   not an edit
+ */
+export type EntityChangeCause =
+  | { kind: 'optimistic'; id: number }
+  | { kind: 'rollback'; id: number; patches: EntityPatch[] }
+  | { kind: 'restore' };
+
+/**
+ * Tells the features watching the entities, such as
+ * `withNormalizationHistory`, why the entities change. Changes stored
+ * without a cause are edits
+ */
+export interface EntityChangeCauses {
+  /**
+   * The cause of the change being stored, or null for an edit
+   */
+  current(): EntityChangeCause | null;
+
+  /**
+   * Stores the changes made by a function with the given cause
+   */
+  run<R>(cause: EntityChangeCause, fn: () => R): R;
+}
+
+/**
+ * Creates the holder of the cause of the entity change being stored
+ *
+ * @returns The entity change causes of one store
+ */
+export function createEntityChangeCauses(): EntityChangeCauses {
+  let current: EntityChangeCause | null = null;
+
+  return {
+    current: () => current,
+    run(cause, fn) {
+      const previous = current;
+      current = cause;
+      try {
+        return fn();
+      } finally {
+        current = previous;
+      }
+    },
+  };
+}
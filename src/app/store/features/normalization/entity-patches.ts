@@ -0,0 +1,129 @@
+import { createEntitiesDraft } from './entities-draft';
+import { EntityId, EntityMap } from './schema';
+
+/**
+ * The change of a single entity. `before` is undefined for an added entity
+ * and `after` is undefined for a removed entity
+ */
+export interface EntityPatch {
+  type: string;
+  id: EntityId;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Lists the entities that differ between two versions of the entity
+ * collections. Collections and entities that kept their identity are skipped
+ *
+ * @param before The entity collections before the change
+ * @param after The entity collections after the change
+ * @returns The patches turning `before` into `after`
+ */
+export function diffEntities(
+  before: Record<string, EntityMap<unknown>>,
+  after: Record<string, EntityMap<unknown>>
+): EntityPatch[] {
+  const patches: EntityPatch[] = [];
+  const types = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const type of types) {
+    const previous = before[type] ?? {};
+    const next = after[type] ?? {};
+    if (previous === next) {
+      continue;
+    }
+
+    const ids = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    for (const id of ids) {
+      if (previous[id] !== next[id]) {
+        patches.push({ type, id, before: previous[id], after: next[id] });
+      }
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Reverts the properties a patch changed on an entity that was changed
+ * again since. Properties changed by the later change are kept, and the
+ * entity keeps its identity if none of the properties is reverted
+ */
+function revertProperties(current: object, patch: EntityPatch): object {
+  const before = (patch.before ?? {}) as Record<string, unknown>;
+  const after = (patch.after ?? {}) as Record<string, unknown>;
+  const reverted: Record<string, unknown> = { ...current };
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  let changed = false;
+
+  for (const key of keys) {
+    if (before[key] === after[key] || reverted[key] !== after[key]) {
+      continue;
+    }
+    if (key in before) {
+      reverted[key] = before[key];
+    } else {
+      delete reverted[key];
+    }
+    changed = true;
+  }
+
+  return changed ? reverted : current;
+}
+
+/**
+ * Reverts a patch on a version of its entity that may have changed since
+ * the patch was made. The entity in its patched state is restored, an
+ * entity changed again only gets back the properties the patch changed, and
+ * a removed entity stays removed
+ *
+ * @param current The version of the entity, undefined if it is removed
+ * @param patch The patch to revert
+ * @returns The entity with the patch reverted, undefined if it is removed
+ */
+export function revertEntity(current: unknown, patch: EntityPatch): unknown {
+  if (current === patch.after) {
+    return patch.before;
+  }
+  if (
+    typeof current === 'object' &&
+    current !== null &&
+    patch.after !== undefined &&
+    patch.before !== undefined
+  ) {
+    return revertProperties(current, patch);
+  }
+  return current;
+}
+
+/**
+ * Reverts patches on entity collections that may have changed since the
+ * patches were made, entity by entity as `revertEntity` does
+ *
+ * @param entities The current entity collections
+ * @param patches The patches to revert
+ * @returns The entity collections with the patches reverted
+ */
+export function revertPatches(
+  entities: Record<string, EntityMap<unknown>>,
+  patches: EntityPatch[]
+): Record<string, EntityMap<unknown>> {
+  const draft = createEntitiesDraft(entities);
+
+  patches.forEach((patch) => {
+    const current = draft.get(patch.type, patch.id);
+    const reverted = revertEntity(current, patch);
+
+    if (reverted === current) {
+      return;
+    }
+    if (reverted === undefined) {
+      draft.remove(patch.type, patch.id);
+    } else {
+      draft.set(patch.type, patch.id, reverted);
+    }
+  });
+
+  return draft.finish();
+}
@@ -0,0 +1,92 @@
+import { getAtPath, toPropertyPath } from './property-path';
+import { readReferences } from './references';
+import { EntityMap, EntityReference, EntitySchemaMap } from './schema';
+
+/**
+ * Whether the entities of a type are kept by garbage collection
+ *
+ * - `root`: always kept, and everything they reference is kept as well
+ * - `referenced`: kept only while a kept entity references them or they
+ *   are kept explicitly, e.g. as part of a named result list
+ */
+export type RetentionPolicy = 'root' | 'referenced';
+
+/**
+ * Options for finding unreachable entities
+ */
+export interface GarbageCollectionOptions {
+  /**
+   * Retention policy per entity type. Types that are not listed are roots
+   */
+  retention?: Record<string, RetentionPolicy>;
+
+  /**
+   * Entities kept in addition to the entities of root types
+   */
+  keep?: EntityReference[];
+}
+
+/**
+ * Finds the entities that can no longer be reached: entities of types
+ * retained while referenced that neither a root entity, an explicitly kept
+ * entity nor anything reachable from them references
+ *
+ * @param entities The normalized entities
+ * @param schemaMap The schema map
+ * @param options The retention policies and the entities to keep
+ * @returns The unreachable entities
+ */
+export function findGarbage(
+  entities: Record<string, EntityMap<unknown>>,
+  schemaMap: EntitySchemaMap,
+  options: GarbageCollectionOptions = {}
+): EntityReference[] {
+  const retention = options.retention ?? {};
+  const collectable = Object.keys(schemaMap).filter(
+    (entityType) => retention[entityType] === 'referenced'
+  );
+  if (collectable.length === 0) {
+    return [];
+  }
+
+  // Walk the relationships from the roots and the kept entities
+  const reachable = new Set<string>();
+  const queue: EntityReference[] = [
+    ...Object.keys(schemaMap)
+      .filter((entityType) => !collectable.includes(entityType))
+      .flatMap((entityType) =>
+        Object.keys(entities[entityType] ?? {}).map((id) => ({
+          type: entityType,
+          id,
+        }))
+      ),
+    ...(options.keep ?? []),
+  ];
+
+  while (queue.length > 0) {
+    const { type, id } = queue.pop() as EntityReference;
+    const key = `${type}:${id}`;
+    const entity = entities[type]?.[id];
+    if (reachable.has(key) || entity === undefined) {
+      continue;
+    }
+    reachable.add(key);
+
+    for (const [relationshipKey, relationship] of Object.entries(
+      schemaMap[type]?.relationships ?? {}
+    )) {
+      queue.push(
+        ...readReferences(
+          getAtPath(entity, toPropertyPath(relationshipKey)),
+          relationship
+        )
+      );
+    }
+  }
+
+  return collectable.flatMap((entityType) =>
+    Object.keys(entities[entityType] ?? {})
+      .filter((id) => !reachable.has(`${entityType}:${id}`))
+      .map((id) => ({ type: entityType, id }))
+  );
+}
@@ -1,4 +1,15 @@
 export * from './schema';
+export * from './schema-validation';
 export * from './normalizer';
+export * from './merge';
+export * from './integrity';
+export * from './garbage-collection';
+export * from './staleness';
 export * from './with-normalization';
+export * from './with-normalization-history';
+export * from './with-normalization-persistence';
+export * from './persistence-storage';
+export * from './entity-patches';
+export * from './entity-change-causes';
+export * from './query';
 export * from './blog.normalizers';
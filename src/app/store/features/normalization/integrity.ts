@@ -0,0 +1,243 @@
+import { getAtPath, toPropertyPath } from './property-path';
+import { collectIncomingRelationships, readReferences } from './references';
+import {
+  EntityId,
+  EntityMap,
+  EntityReference,
+  EntitySchemaMap,
+  getRelationshipTypes,
+  isPolymorphic,
+  isPolymorphicReference,
+  RelationshipConfig,
+} from './schema';
+
+/**
+ * A reference to an entity that does not exist
+ */
+export interface DanglingReference {
+  entityType: string;
+  id: EntityId;
+  key: string;
+  reference: EntityReference;
+}
+
+/**
+ * A relationship value that does not have the shape its relationship
+ * configuration requires
+ */
+export interface TypeMismatch {
+  entityType: string;
+  id: EntityId;
+  key: string;
+  value: unknown;
+  message: string;
+}
+
+/**
+ * Result of a referential integrity check
+ */
+export interface IntegrityReport {
+  /**
+   * Whether there are neither dangling references nor type mismatches.
+   * Orphaned entities do not make the state invalid
+   */
+  valid: boolean;
+
+  /**
+   * References to entities that do not exist
+   */
+  dangling: DanglingReference[];
+
+  /**
+   * Entities of non-root types that no other entity references
+   */
+  orphans: EntityReference[];
+
+  /**
+   * Relationship values of the wrong shape or entity type
+   */
+  typeMismatches: TypeMismatch[];
+}
+
+/**
+ * Options for the referential integrity check
+ */
+export interface IntegrityOptions {
+  /**
+   * Entity types whose entities are never reported as orphaned. Defaults to
+   * the types no relationship points at
+   */
+  roots?: string[];
+}
+
+/**
+ * How the store reacts when a change introduces a broken reference
+ *
+ * - `off`: changes are not checked
+ * - `log`: the problems are logged to the console
+ * - `throw`: the change is rejected with an error
+ */
+export type IntegrityCheckMode = 'off' | 'log' | 'throw';
+
+/**
+ * Describes why a single stored reference has the wrong shape, if it does
+ */
+function describeMismatch(
+  reference: unknown,
+  relationship: RelationshipConfig
+): string | undefined {
+  if (!isPolymorphic(relationship)) {
+    return typeof reference === 'string' || typeof reference === 'number'
+      ? undefined
+      : `expected an ID of '${relationship.type}'`;
+  }
+
+  if (!isPolymorphicReference(reference)) {
+    return 'expected a { type, id } reference';
+  }
+  return relationship.types.includes(reference.type)
+    ? undefined
+    : `type '${reference.type}' is not one of: ${relationship.types.join(', ')}`;
+}
+
+/**
+ * Checks the relationships of a single entity
+ *
+ * @param entities The normalized entities
+ * @param schemaMap The schema map
+ * @param entityType The type of the entity to check
+ * @param id The ID of the entity to check
+ * @returns The dangling references and type mismatches of the entity
+ */
+export function checkEntityIntegrity(
+  entities: Record<string, EntityMap<unknown>>,
+  schemaMap: EntitySchemaMap,
+  entityType: string,
+  id: EntityId
+): Pick<IntegrityReport, 'dangling' | 'typeMismatches'> {
+  const dangling: DanglingReference[] = [];
+  const typeMismatches: TypeMismatch[] = [];
+  const entity = entities[entityType]?.[id];
+  const relationships = schemaMap[entityType]?.relationships ?? {};
+
+  for (const [key, relationship] of Object.entries(relationships)) {
+    const value = getAtPath(entity, toPropertyPath(key));
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    // The value itself must match the cardinality of the relationship
+    if (relationship.isArray !== Array.isArray(value)) {
+      typeMismatches.push({
+        entityType,
+        id,
+        key,
+        value,
+        message: relationship.isArray
+          ? 'expected an array'
+          : 'expected a single reference',
+      });
+      continue;
+    }
+
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    values.forEach((reference) => {
+      const message = describeMismatch(reference, relationship);
+      if (message) {
+        typeMismatches.push({ entityType, id, key, value: reference, message });
+      }
+    });
+
+    readReferences(value, relationship)
+      .filter(
+        (reference) =>
+          (typeof reference.id === 'string' ||
+            typeof reference.id === 'number') &&
+          getRelationshipTypes(relationship).includes(reference.type) &&
+          !entities[reference.type]?.[reference.id]
+      )
+      .forEach((reference) =>
+        dangling.push({ entityType, id, key, reference })
+      );
+  }
+
+  return { dangling, typeMismatches };
+}
+
+/**
+ * Checks the referential integrity of normalized entities: every reference
+ * must point at an existing entity of an allowed type, and every entity of a
+ * non-root type should be referenced by another entity
+ *
+ * @param entities The normalized entities
+ * @param schemaMap The schema map
+ * @param options Options such as the root entity types
+ * @returns The integrity report
+ */
+export function validateIntegrity(
+  entities: Record<string, EntityMap<unknown>>,
+  schemaMap: EntitySchemaMap,
+  options: IntegrityOptions = {}
+): IntegrityReport {
+  const dangling: DanglingReference[] = [];
+  const typeMismatches: TypeMismatch[] = [];
+  const referenced = new Set<string>();
+  const incoming = collectIncomingRelationships(schemaMap);
+  const roots =
+    options.roots ??
+    Object.keys(schemaMap).filter((entityType) => !incoming[entityType]);
+
+  for (const entityType of Object.keys(schemaMap)) {
+    const relationships = schemaMap[entityType].relationships ?? {};
+
+    for (const [id, entity] of Object.entries(entities[entityType] ?? {})) {
+      const issues = checkEntityIntegrity(entities, schemaMap, entityType, id);
+      dangling.push(...issues.dangling);
+      typeMismatches.push(...issues.typeMismatches);
+
+      // Remember everything this entity points at
+      for (const [key, relationship] of Object.entries(relationships)) {
+        readReferences(getAtPath(entity, toPropertyPath(key)), relationship)
+          .forEach((reference) =>
+            referenced.add(`${reference.type}:${reference.id}`)
+          );
+      }
+    }
+  }
+
+  const orphans: EntityReference[] = Object.keys(schemaMap)
+    .filter((entityType) => !roots.includes(entityType))
+    .flatMap((entityType) =>
+      Object.keys(entities[entityType] ?? {})
+        .filter((id) => !referenced.has(`${entityType}:${id}`))
+        .map((id) => ({ type: entityType, id }))
+    );
+
+  return {
+    valid: dangling.length === 0 && typeMismatches.length === 0,
+    dangling,
+    orphans,
+    typeMismatches,
+  };
+}
+
+/**
+ * Formats the problems found for a change into a single message
+ *
+ * @param issues The dangling references and type mismatches
+ * @returns The message
+ */
+export function describeIntegrityIssues(
+  issues: Pick<IntegrityReport, 'dangling' | 'typeMismatches'>
+): string {
+  return [
+    ...issues.dangling.map(
+      ({ entityType, id, key, reference }) =>
+        `${entityType} '${id}' references missing ${reference.type} '${reference.id}' through '${key}'`
+    ),
+    ...issues.typeMismatches.map(
+      ({ entityType, id, key, message }) =>
+        `${entityType} '${id}' has an invalid value for '${key}': ${message}`
+    ),
+  ].join('\n');
+}
@@ -0,0 +1,211 @@
+import { EntitiesDraft } from './entities-draft';
+import { getAtPath, setAtPath, toPropertyPath } from './property-path';
+import { isSameId, unlinkReference } from './references';
+import { EntityId, EntitySchemaMap, isPolymorphic } from './schema';
+
+/**
+ * One side of an inverse relationship pair
+ */
+export interface InverseRelationship {
+  /**
+   * Key of the relationship on the owning entity type
+   */
+  key: string;
+
+  /**
+   * Entity type the relationship points to
+   */
+  targetType: string;
+
+  /**
+   * Key of the relationship on the target type that points back
+   */
+  inverseKey: string;
+}
+
+/**
+ * Collects the inverse relationship pairs of a schema map per entity type.
+ * A pair declared on only one side is registered for both sides
+ *
+ * @param schemaMap The schema map
+ * @returns The inverse relationships keyed by the owning entity type
+ */
+export function collectInverseRelationships(
+  schemaMap: EntitySchemaMap
+): Record<string, InverseRelationship[]> {
+  const inverses: Record<string, InverseRelationship[]> = {};
+
+  // Register one side of a pair unless it is already known
+  const register = (entityType: string, inverse: InverseRelationship) => {
+    const list = (inverses[entityType] ??= []);
+    if (!list.some((existing) => existing.key === inverse.key)) {
+      list.push(inverse);
+    }
+  };
+
+  for (const [entityType, schema] of Object.entries(schemaMap)) {
+    for (const [key, relationship] of Object.entries(
+      schema.relationships ?? {}
+    )) {
+      if (isPolymorphic(relationship) || !relationship.inverse) {
+        continue;
+      }
+
+      register(entityType, {
+        key,
+        targetType: relationship.type,
+        inverseKey: relationship.inverse,
+      });
+      register(relationship.type, {
+        key: relationship.inverse,
+        targetType: entityType,
+        inverseKey: key,
+      });
+    }
+  }
+
+  return inverses;
+}
+
+/**
+ * Reads the IDs referenced by a relationship value
+ */
+function referencedIds(value: unknown): EntityId[] {
+  if (Array.isArray(value)) {
+    return value as EntityId[];
+  }
+  return value === null || value === undefined ? [] : [value as EntityId];
+}
+
+/**
+ * Removes the back-reference to an entity from the inverse side of a
+ * relationship
+ */
+function unlinkInverse(
+  draft: EntitiesDraft,
+  schemaMap: EntitySchemaMap,
+  entityType: string,
+  id: EntityId,
+  key: string,
+  referencedType: string,
+  referencedId: EntityId
+): void {
+  const relationship = schemaMap[entityType]?.relationships?.[key];
+  if (relationship) {
+    unlinkReference(
+      draft,
+      { entityType, id, key, relationship },
+      { type: referencedType, id: referencedId }
+    );
+  }
+}
+
+/**
+ * Adds a reference to the inverse side of a relationship. When the inverse
+ * side holds a single reference that pointed at another entity, that
+ * entity no longer references the target
+ */
+function linkInverse(
+  draft: EntitiesDraft,
+  schemaMap: EntitySchemaMap,
+  ownerType: string,
+  ownerId: EntityId,
+  inverse: InverseRelationship,
+  targetId: EntityId
+): void {
+  const target = draft.get(inverse.targetType, targetId);
+  const inverseConfig =
+    schemaMap[inverse.targetType]?.relationships?.[inverse.inverseKey];
+  if (target === undefined || !inverseConfig) {
+    return;
+  }
+
+  const path = toPropertyPath(inverse.inverseKey);
+  const value = getAtPath(target, path);
+
+  if (inverseConfig.isArray) {
+    const references = referencedIds(value);
+    if (!references.some((reference) => isSameId(reference, ownerId))) {
+      draft.set(
+        inverse.targetType,
+        targetId,
+        setAtPath(target, path, [...references, ownerId])
+      );
+    }
+    return;
+  }
+
+  if (isSameId(value, ownerId)) {
+    return;
+  }
+
+  // The target moves away from its previous owner
+  if (value !== null && value !== undefined) {
+    unlinkInverse(
+      draft,
+      schemaMap,
+      ownerType,
+      value as EntityId,
+      inverse.key,
+      inverse.targetType,
+      targetId
+    );
+  }
+  draft.set(inverse.targetType, targetId, setAtPath(target, path, ownerId));
+}
+
+/**
+ * Keeps the inverse sides of the relationships of an entity consistent
+ * after it was added, updated or removed. Relationship values that are
+ * undefined in the new entity are treated as not provided and left alone
+ *
+ * @param draft The entities being changed
+ * @param schemaMap The schema map
+ * @param inverses The inverse relationships of the schema map
+ * @param entityType The type of the changed entity
+ * @param id The ID of the changed entity
+ * @param previous The entity before the change, undefined if it was added
+ * @param next The entity after the change, undefined if it was removed
+ */
+export function syncInverseRelationships(
+  draft: EntitiesDraft,
+  schemaMap: EntitySchemaMap,
+  inverses: Record<string, InverseRelationship[]>,
+  entityType: string,
+  id: EntityId,
+  previous: unknown,
+  next: unknown
+): void {
+  for (const inverse of inverses[entityType] ?? []) {
+    const path = toPropertyPath(inverse.key);
+    const nextValue = next === undefined ? null : getAtPath(next, path);
+    if (nextValue === undefined) {
+      continue;
+    }
+
+    const before = referencedIds(getAtPath(previous, path));
+    const after = referencedIds(nextValue);
+
+    // Related entities that are no longer referenced drop the back-reference
+    before
+      .filter((reference) => !after.some((ref) => isSameId(ref, reference)))
+      .forEach((reference) =>
+        unlinkInverse(
+          draft,
+          schemaMap,
+          inverse.targetType,
+          reference,
+          inverse.inverseKey,
+          entityType,
+          id
+        )
+      );
+
+    // Newly referenced entities gain the back-reference
+    after
+      .filter((reference) => !before.some((ref) => isSameId(ref, reference)))
+      .forEach((reference) =>
+        linkInverse(draft, schemaMap, entityType, id, inverse, reference)
+      );
+  }
+}
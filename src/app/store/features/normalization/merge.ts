@@ -0,0 +1,81 @@
+import { EntitySchema, MergeStrategy } from './schema';
+
+/**
+ * Checks whether a value is a plain object that can be merged recursively
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Recursively merges plain objects. Arrays and all other values are taken
+ * from the source, undefined source values keep the target value
+ *
+ * @param target The existing value
+ * @param source The incoming value
+ * @returns A new merged value
+ */
+export function deepMerge<T>(target: T, source: T): T {
+  if (!isPlainObject(target) || !isPlainObject(source)) {
+    return source;
+  }
+
+  const merged: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    if (value !== undefined) {
+      merged[key] = deepMerge(merged[key], value);
+    }
+  }
+
+  return merged as T;
+}
+
+/**
+ * Merges an incoming entity with the existing entity stored under the same ID
+ *
+ * @param existing The existing entity, if any
+ * @param incoming The incoming entity
+ * @param strategy The merge strategy to apply (defaults to 'replace')
+ * @returns The entity to store
+ */
+export function mergeEntity<T>(
+  existing: T | undefined,
+  incoming: T,
+  strategy: MergeStrategy<T> = 'replace'
+): T {
+  if (existing === undefined) {
+    return incoming;
+  }
+
+  switch (strategy) {
+    case 'replace':
+      return incoming;
+    case 'shallow':
+      return { ...existing, ...incoming };
+    case 'deep':
+      return deepMerge(existing, incoming);
+    case 'keepExisting':
+      return existing;
+    default:
+      return strategy(existing, incoming);
+  }
+}
+
+/**
+ * Resolves the merge strategy for an entity type, preferring the strategy
+ * passed for the current call over the one configured on the schema
+ *
+ * @param schema The schema of the entity type
+ * @param override The strategy passed for the current call
+ * @returns The strategy to apply
+ */
+export function resolveMergeStrategy<T>(
+  schema: EntitySchema<T> | undefined,
+  override?: MergeStrategy
+): MergeStrategy<T> {
+  return (override as MergeStrategy<T> | undefined) ?? schema?.merge ?? 'replace';
+}
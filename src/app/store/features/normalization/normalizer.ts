@@ -1,4 +1,51 @@
-import { EntityId, EntityMap, EntitySchema, EntitySchemaMap, NormalizedData } from './schema';
+import {
+  CachedDenormalization,
+  DenormalizationCache,
+  DenormalizationDependency,
+  DenormalizationOptions,
+  describeIdSelector,
+  EntityId,
+  EntityMap,
+  EntitySchema,
+  EntitySchemaMap,
+  isPolymorphic,
+  isPolymorphicReference,
+  NormalizationOptions,
+  NormalizedData,
+  PolymorphicReference,
+  Projection,
+  RelationshipConfig,
+  resolvePolymorphicType,
+  selectEntityId,
+} from './schema';
+import { mergeEntity, resolveMergeStrategy } from './merge';
+import { assignAtPath, getAtPath, toPropertyPath } from './property-path';
+import { assertValidSchemaMap } from './schema-validation';
+
+/**
+ * Builds the key used to track an entity while walking a graph
+ */
+function entityKey(entityType: string, entityId: EntityId): string {
+  return `${entityType}:${entityId}`;
+}
+
+/**
+ * Checks whether a relationship value is already a reference (an ID)
+ * rather than a nested entity object
+ */
+function isEntityIdValue(value: unknown): value is EntityId {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+/**
+ * State shared by all entities visited during one normalize call
+ */
+interface NormalizationContext {
+  schemaMap: EntitySchemaMap;
+  normalizedData: NormalizedData;
+  options: NormalizationOptions;
+  inProgress: Set<string>;
+}
 
 /**
  * Normalizes an object or array of objects according to the schema
@@ -6,12 +53,14 @@ import { EntityId, EntityMap, EntitySchema, EntitySchemaMap, NormalizedData } fr
  * @param input The input data to normalize
  * @param schema The schema to use for normalization
  * @param schemaMap The complete schema map for resolving relationships
+ * @param options Options such as the merge strategy for repeated entities
  * @returns Normalized data structure
  */
 export function normalize<T>(
   input: T | T[],
   schemaKey: string,
-  schemaMap: EntitySchemaMap
+  schemaMap: EntitySchemaMap,
+  options: NormalizationOptions = {}
 ): NormalizedData {
   // Initialize the normalized data structure
   const normalizedData: NormalizedData = {
@@ -19,21 +68,32 @@ export function normalize<T>(
     result: Array.isArray(input) ? [] : undefined as unknown as EntityId
   };
 
+  // Fail early with every problem of the schema map
+  assertValidSchemaMap(schemaMap);
+
   // Get the schema for the current entity type
   const schema = schemaMap[schemaKey];
   if (!schema) {
     throw new Error(`Schema not found for key: ${schemaKey}`);
   }
 
+  const context: NormalizationContext = {
+    schemaMap,
+    normalizedData,
+    options,
+    // Entities currently being processed, used to break reference cycles
+    inProgress: new Set<string>(),
+  };
+
   // Process the input data
   if (Array.isArray(input)) {
     // Handle array of entities
     (normalizedData.result as EntityId[]) = input.map(item => 
-      processEntity(item, schemaKey, schema, schemaMap, normalizedData)
+      processEntity(item, schemaKey, schema, context)
     );
   } else if (input) {
     // Handle single entity
-    normalizedData.result = processEntity(input, schemaKey, schema, schemaMap, normalizedData);
+    normalizedData.result = processEntity(input, schemaKey, schema, context);
   }
 
   return normalizedData;
@@ -45,25 +105,35 @@ export function normalize<T>(
  * @param entity The entity to process
  * @param entityType The type of the entity
  * @param schema The schema for this entity type
- * @param schemaMap The complete schema map
- * @param normalizedData The normalized data being built
+ * @param context The state of the current normalize call
  * @returns The ID of the processed entity
  */
 function processEntity<T>(
   entity: T,
   entityType: string,
   schema: EntitySchema<T>,
-  schemaMap: EntitySchemaMap,
-  normalizedData: NormalizedData
+  context: NormalizationContext
 ): EntityId {
-  // Get the ID key for this entity type (default to 'id')
-  const idKey = schema.idKey || 'id';
-  
-  // Extract the entity ID
-  const entityId = (entity as unknown as Record<string, EntityId>)[idKey];
+  const { normalizedData, inProgress } = context;
+
+  // Related entities may already be given as references
+  if (isEntityIdValue(entity)) {
+    return entity;
+  }
+
+  // Extract the entity ID using the ID key or selector of this entity type
+  const entityId = selectEntityId(schema, entity);
   if (entityId === undefined) {
-    throw new Error(`Entity ID not found using key '${idKey}' for type '${entityType}'`);
+    throw new Error(`Entity ID not found using ${describeIdSelector(schema.idKey)} for type '${entityType}'`);
+  }
+
+  // A back-reference to an entity that is still being processed closes a
+  // cycle, so it is stored as a reference without walking it again
+  const visitKey = entityKey(entityType, entityId);
+  if (inProgress.has(visitKey)) {
+    return entityId;
   }
+  inProgress.add(visitKey);
 
   // Initialize the entity collection if it doesn't exist
   if (!normalizedData.entities[entityType]) {
@@ -76,40 +146,200 @@ function processEntity<T>(
   // Process relationships if they exist
   if (schema.relationships) {
     for (const [key, relationshipConfig] of Object.entries(schema.relationships)) {
-      const value = processedEntity[key];
+      // Keys may be dotted paths into nested plain objects
+      const path = toPropertyPath(key);
+      const value = getAtPath(processedEntity, path);
       
       if (value !== undefined) {
         if (relationshipConfig.isArray && Array.isArray(value)) {
           // Handle array of related entities
-          processedEntity[key] = value.map(item => 
-            processEntity(
-              item, 
-              relationshipConfig.type, 
-              schemaMap[relationshipConfig.type], 
-              schemaMap, 
-              normalizedData
-            )
-          );
+          assignAtPath(processedEntity, path, value.map(item => 
+            processRelated(item, relationshipConfig, context)
+          ));
         } else if (!relationshipConfig.isArray && value !== null) {
           // Handle single related entity
-          processedEntity[key] = processEntity(
-            value as object, 
-            relationshipConfig.type, 
-            schemaMap[relationshipConfig.type], 
-            schemaMap, 
-            normalizedData
-          );
+          assignAtPath(processedEntity, path, processRelated(value, relationshipConfig, context));
         }
       }
     }
   }
 
-  // Store the processed entity
-  normalizedData.entities[entityType][entityId] = processedEntity;
+  // Store the processed entity, merging it with an earlier occurrence of
+  // the same entity in this payload
+  const collection = normalizedData.entities[entityType];
+  collection[entityId] = mergeEntity(
+    collection[entityId],
+    processedEntity,
+    resolveMergeStrategy<unknown>(schema, context.options.merge)
+  );
+  inProgress.delete(visitKey);
 
   return entityId;
 }
 
+/**
+ * Processes a related entity and returns the reference stored in its place:
+ * its ID, or a `{ type, id }` reference for polymorphic relationships
+ * 
+ * @param value The related entity or an existing reference to it
+ * @param relationshipConfig The relationship the value belongs to
+ * @param context The state of the current normalize call
+ * @returns The reference to the related entity
+ */
+function processRelated(
+  value: unknown,
+  relationshipConfig: RelationshipConfig,
+  context: NormalizationContext
+): EntityId | PolymorphicReference {
+  const { schemaMap } = context;
+
+  if (!isPolymorphic(relationshipConfig)) {
+    return processEntity(
+      value,
+      relationshipConfig.type,
+      schemaMap[relationshipConfig.type],
+      context
+    );
+  }
+
+  // Read the type of a nested entity from its discriminator
+  const type = resolvePolymorphicType(
+    relationshipConfig,
+    value as Record<string, unknown>
+  );
+
+  // Existing `{ type, id }` references pass through untouched. The
+  // discriminator is checked first, so a minimal entity holding only a
+  // `type` discriminator and its ID is stored rather than taken for one
+  const isEntity =
+    type !== undefined && selectEntityId(schemaMap[type], value) !== undefined;
+  if (!isEntity && isPolymorphicReference(value)) {
+    return value;
+  }
+
+  if (type === undefined) {
+    throw new Error(
+      `Cannot resolve entity type for polymorphic relationship, expected one of: ${relationshipConfig.types.join(', ')}`
+    );
+  }
+
+  // Route the nested entity into the collection named by its discriminator
+  const id = processEntity(value, type, schemaMap[type], context);
+  return { type, id };
+}
+
+/**
+ * The entities read while denormalizing one entity, collected for its
+ * cache entry
+ */
+interface DenormalizationFrame {
+  dependencies: Map<string, DenormalizationDependency>;
+  cuts: Set<string>;
+}
+
+/**
+ * State shared by all entities visited during one denormalize call
+ */
+interface DenormalizationContext {
+  entities: Record<string, EntityMap<unknown>>;
+  schemaMap: EntitySchemaMap;
+  cycles: NonNullable<DenormalizationOptions['cycles']>;
+  maxDepth: number;
+  path: Set<string>;
+  shared: Map<string, unknown>;
+  cache?: DenormalizationCache;
+  frames: DenormalizationFrame[];
+}
+
+/**
+ * Creates a cache for `denormalize`. Passing the same cache to repeated
+ * calls keeps the denormalized objects of unchanged entities, so they stay
+ * equal by reference. The cached objects must not be mutated
+ *
+ * @returns An empty cache
+ */
+export function createDenormalizationCache(): DenormalizationCache {
+  const entries = new WeakMap<object, Map<string, CachedDenormalization>>();
+
+  return {
+    get: (entity, variant) => entries.get(entity)?.get(variant),
+    set(entity, variant, entry) {
+      let variants = entries.get(entity);
+      if (!variants) {
+        variants = new Map();
+        entries.set(entity, variants);
+      }
+      variants.set(variant, entry);
+    },
+  };
+}
+
+/**
+ * Projection of a relationship included with `true`
+ */
+const expandNothing: Projection = {};
+
+/**
+ * Keys of the projections seen so far, used to tell cache entries apart
+ */
+const projectionKeys = new WeakMap<Projection, string>();
+
+/**
+ * Builds the part of a cache key describing a projection
+ */
+function projectionKey(projection: Projection | undefined): string {
+  if (!projection) {
+    return '*';
+  }
+  let key = projectionKeys.get(projection);
+  if (key === undefined) {
+    key = JSON.stringify(projection);
+    projectionKeys.set(projection, key);
+  }
+  return key;
+}
+
+/**
+ * Checks whether a cache entry still describes the current entities: every
+ * related entity is unchanged, and the same related entities are
+ * back-references on the current branch
+ */
+function isCacheEntryValid(
+  entry: CachedDenormalization,
+  context: DenormalizationContext
+): boolean {
+  return entry.dependencies.every((dependency) => {
+    const key = entityKey(dependency.type, dependency.id);
+    return (
+      context.entities[dependency.type]?.[dependency.id] ===
+        dependency.entity &&
+      context.path.has(key) === entry.cuts.has(key)
+    );
+  });
+}
+
+/**
+ * Adds the entities read by a nested entity to the current frame
+ */
+function mergeIntoFrame(
+  frame: DenormalizationFrame | undefined,
+  dependencies: Iterable<DenormalizationDependency>,
+  cuts: Iterable<string>
+): void {
+  if (!frame) {
+    return;
+  }
+  for (const dependency of dependencies) {
+    frame.dependencies.set(
+      entityKey(dependency.type, dependency.id),
+      dependency
+    );
+  }
+  for (const cut of cuts) {
+    frame.cuts.add(cut);
+  }
+}
+
 /**
  * Denormalizes data based on the schema
  * 
@@ -117,23 +347,42 @@ function processEntity<T>(
  * @param entityType The type of the entity
  * @param entities The normalized entities
  * @param schemaMap The schema map
+ * @param options How cycles and nesting depth are handled
  * @returns The denormalized entity
  */
 export function denormalize<T>(
   entityId: EntityId | EntityId[],
   entityType: string,
   entities: Record<string, EntityMap<unknown>>,
-  schemaMap: EntitySchemaMap
+  schemaMap: EntitySchemaMap,
+  options: DenormalizationOptions = {}
 ): T | T[] | null {
+  const context: DenormalizationContext = {
+    entities,
+    schemaMap,
+    cycles: options.cycles ?? 'stub',
+    maxDepth: options.maxDepth ?? Infinity,
+    path: new Set<string>(),
+    shared: new Map<string, unknown>(),
+    cache: options.cache,
+    frames: [],
+  };
+
   // Handle array of IDs
   if (Array.isArray(entityId)) {
     return entityId.map(id => 
-      denormalizeSingle(id, entityType, entities, schemaMap)
-    ).filter(Boolean) as T[];
+      denormalizeSingle(id, entityType, context, 0, options.include)
+    ).filter(entity => entity !== null) as T[];
   }
   
   // Handle single ID
-  return denormalizeSingle(entityId, entityType, entities, schemaMap) as T;
+  return denormalizeSingle(
+    entityId,
+    entityType,
+    context,
+    0,
+    options.include
+  ) as T;
 }
 
 /**
@@ -141,56 +390,166 @@ export function denormalize<T>(
  * 
  * @param entityId The ID of the entity to denormalize
  * @param entityType The type of the entity
- * @param entities The normalized entities
- * @param schemaMap The schema map
- * @returns The denormalized entity
+ * @param context The state of the current denormalize call
+ * @param depth The number of relationship levels above this entity
+ * @param projection The relationships to expand, all if undefined
+ * @returns The denormalized entity, or the ID itself for a back-reference
+ * under the 'id' cycle policy
  */
-function denormalizeSingle<T>(
+function denormalizeSingle(
   entityId: EntityId,
   entityType: string,
-  entities: Record<string, EntityMap<unknown>>,
-  schemaMap: EntitySchemaMap
-): T | null {
+  context: DenormalizationContext,
+  depth: number,
+  projection: Projection | undefined
+): unknown {
+  const { entities, schemaMap } = context;
+  const frame = context.frames[context.frames.length - 1];
+
+  // Remember the entity for the cache entry of the entity above
+  const stored = entities[entityType]?.[entityId];
+  mergeIntoFrame(frame, [{ type: entityType, id: entityId, entity: stored }], []);
+
   // Check if the entity exists
-  if (!entities[entityType] || !entities[entityType][entityId]) {
+  if (!stored) {
     return null;
   }
 
   // Get the entity and schema
-  const entity = entities[entityType][entityId] as Record<string, unknown>;
+  const entity = stored as Record<string, unknown>;
   const schema = schemaMap[entityType];
+  const visitKey = entityKey(entityType, entityId);
+
+  // Repeated entities resolve to the object built on their first visit
+  if (context.cycles === 'shared' && context.shared.has(visitKey)) {
+    return context.shared.get(visitKey);
+  }
+
+  // Back-references are not expanded again
+  if (context.path.has(visitKey)) {
+    frame?.cuts.add(visitKey);
+    return context.cycles === 'id' ? entityId : { ...entity };
+  }
+
+  // Reuse the result of an earlier call while nothing it depends on changed
+  const cache = context.cycles === 'shared' ? undefined : context.cache;
+  const variant = `${context.cycles}:${context.maxDepth - depth}:${projectionKey(projection)}`;
+  const cached = cache?.get(entity, variant);
+  if (cached && isCacheEntryValid(cached, context)) {
+    mergeIntoFrame(frame, cached.dependencies, cached.cuts);
+    return cached.result;
+  }
 
   // Create a copy of the entity to avoid modifying the original
   const denormalizedEntity = { ...entity };
+  if (context.cycles === 'shared') {
+    context.shared.set(visitKey, denormalizedEntity);
+  }
+
+  // Stop expanding relationships once the maximum depth is reached
+  if (depth >= context.maxDepth) {
+    cache?.set(entity, variant, {
+      result: denormalizedEntity,
+      dependencies: [],
+      cuts: new Set(),
+    });
+    return denormalizedEntity;
+  }
+
+  context.path.add(visitKey);
+  const ownFrame: DenormalizationFrame = {
+    dependencies: new Map(),
+    cuts: new Set(),
+  };
+  context.frames.push(ownFrame);
 
   // Process relationships if they exist
   if (schema.relationships) {
     for (const [key, relationshipConfig] of Object.entries(schema.relationships)) {
-      const value = denormalizedEntity[key];
+      // Relationships left out of the projection stay as IDs
+      const selection = projection ? projection[key] : undefined;
+      if (projection && !selection) {
+        continue;
+      }
+      const nested = selection === true ? expandNothing : selection;
+
+      // Keys may be dotted paths into nested plain objects
+      const path = toPropertyPath(key);
+      const value = getAtPath(denormalizedEntity, path);
       
       if (value !== undefined) {
         if (relationshipConfig.isArray && Array.isArray(value)) {
           // Handle array of related entities
-          denormalizedEntity[key] = value.map(id => 
-            denormalizeSingle(
-              id as EntityId, 
-              relationshipConfig.type, 
-              entities, 
-              schemaMap
-            )
-          ).filter(Boolean);
+          assignAtPath(denormalizedEntity, path, value.map(reference => 
+            denormalizeRelated(reference, relationshipConfig, context, depth + 1, nested)
+          ).filter(related => related !== null));
         } else if (!relationshipConfig.isArray && value !== null) {
           // Handle single related entity
-          denormalizedEntity[key] = denormalizeSingle(
-            value as EntityId, 
-            relationshipConfig.type, 
-            entities, 
-            schemaMap
-          );
+          assignAtPath(denormalizedEntity, path, denormalizeRelated(
+            value, 
+            relationshipConfig, 
+            context,
+            depth + 1,
+            nested
+          ));
         }
       }
     }
   }
 
-  return denormalizedEntity as T;
+  context.frames.pop();
+  context.path.delete(visitKey);
+
+  // Back-references to this entity are internal to its own result
+  ownFrame.cuts.delete(visitKey);
+  mergeIntoFrame(frame, ownFrame.dependencies.values(), ownFrame.cuts);
+  cache?.set(entity, variant, {
+    result: denormalizedEntity,
+    dependencies: [...ownFrame.dependencies.values()],
+    cuts: ownFrame.cuts,
+  });
+
+  return denormalizedEntity;
+}
+
+/**
+ * Denormalizes the entity behind a stored relationship reference
+ * 
+ * @param reference The stored ID or polymorphic `{ type, id }` reference
+ * @param relationshipConfig The relationship the reference belongs to
+ * @param context The state of the current denormalize call
+ * @param depth The number of relationship levels above the related entity
+ * @param projection The relationships of the related entity to expand
+ * @returns The denormalized related entity
+ */
+function denormalizeRelated(
+  reference: unknown,
+  relationshipConfig: RelationshipConfig,
+  context: DenormalizationContext,
+  depth: number,
+  projection: Projection | undefined
+): unknown {
+  if (!isPolymorphic(relationshipConfig)) {
+    return denormalizeSingle(
+      reference as EntityId,
+      relationshipConfig.type,
+      context,
+      depth,
+      projection
+    );
+  }
+
+  if (!isPolymorphicReference(reference)) {
+    return null;
+  }
+
+  // Back-references kept as IDs keep their type as well
+  const related = denormalizeSingle(
+    reference.id,
+    reference.type,
+    context,
+    depth,
+    projection
+  );
+  return related === reference.id ? reference : related;
 }
@@ -0,0 +1,116 @@
+/**
+ * Storage the persisted normalized state is written to. Values are plain
+ * data that an adapter may serialize
+ */
+export interface PersistenceStorage {
+  /**
+   * Reads a value, resolving to undefined if nothing is stored under the key
+   */
+  getItem(key: string): Promise<unknown>;
+
+  /**
+   * Writes a value
+   */
+  setItem(key: string, value: unknown): Promise<void>;
+
+  /**
+   * Removes a value
+   */
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Creates a storage adapter for the Web Storage API, storing values as JSON
+ *
+ * @param storage The Web Storage to use, `localStorage` by default
+ * @returns The storage adapter
+ */
+export function createWebStorage(
+  storage: Storage = localStorage
+): PersistenceStorage {
+  return {
+    getItem: async (key) => {
+      const value = storage.getItem(key);
+      return value === null ? undefined : JSON.parse(value);
+    },
+    setItem: async (key, value) => storage.setItem(key, JSON.stringify(value)),
+    removeItem: async (key) => storage.removeItem(key),
+  };
+}
+
+/**
+ * Creates a storage adapter for IndexedDB. Values are stored as structured
+ * clones in a single object store
+ *
+ * @param databaseName The name of the database
+ * @param storeName The name of the object store
+ * @returns The storage adapter
+ */
+export function createIndexedDbStorage(
+  databaseName = 'normalization',
+  storeName = 'state'
+): PersistenceStorage {
+  let database: Promise<IDBDatabase> | undefined;
+
+  // Open the database on first use, creating the object store if needed
+  const open = () =>
+    (database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = undefined;
+        reject(request.error);
+      };
+    }));
+
+  // Run a request against the object store
+  const run = <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ) =>
+    open().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const request = operation(
+            db.transaction(storeName, mode).objectStore(storeName)
+          );
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    );
+
+  return {
+    getItem: (key) => run('readonly', (store) => store.get(key)),
+    setItem: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * Creates a storage adapter keeping values in memory, e.g. for tests.
+ * Values are copied, so stored values never share objects with the state
+ *
+ * @param initial Values to start with, keyed by storage key
+ * @returns The storage adapter
+ */
+export function createMemoryStorage(
+  initial: Record<string, unknown> = {}
+): PersistenceStorage {
+  const values = new Map(Object.entries(initial));
+
+  return {
+    getItem: async (key) => structuredClone(values.get(key)),
+    setItem: async (key, value) => {
+      values.set(key, structuredClone(value));
+    },
+    removeItem: async (key) => {
+      values.delete(key);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Splits a relationship key into its property path. Dotted keys such as
+ * 'meta.lastEditor' address properties of nested plain objects
+ */
+export function toPropertyPath(key: string): string[] {
+  return key.split('.');
+}
+
+/**
+ * Reads the value at a property path
+ *
+ * @param source The object to read from
+ * @param path The property path
+ * @returns The value, or undefined if any object along the path is missing
+ */
+export function getAtPath(source: unknown, path: string[]): unknown {
+  let current = source;
+  for (const segment of path) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Writes a value at a property path without mutating the source. The
+ * objects along the path are copied, everything else is shared
+ *
+ * @param source The object to write to
+ * @param path The property path
+ * @param value The value to write
+ * @returns A copy of the source with the value written
+ */
+export function setAtPath<T>(source: T, path: string[], value: unknown): T {
+  const [segment, ...rest] = path;
+  const target = { ...(source as Record<string, unknown>) };
+
+  target[segment] =
+    rest.length === 0 ? value : setAtPath(target[segment], rest, value);
+
+  return target as T;
+}
+
+/**
+ * Writes a value at a property path of an object that is already a copy:
+ * the object itself is updated in place, nested objects along the path
+ * are copied
+ *
+ * @param target The copied object to write to
+ * @param path The property path
+ * @param value The value to write
+ */
+export function assignAtPath(
+  target: Record<string, unknown>,
+  path: string[],
+  value: unknown
+): void {
+  const [segment, ...rest] = path;
+  target[segment] =
+    rest.length === 0 ? value : setAtPath(target[segment], rest, value);
+}
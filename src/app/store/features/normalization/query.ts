@@ -0,0 +1,171 @@
+import {
+  DenormalizationOptions,
+  EntitySchemaMap,
+  getRelationshipTypes,
+  Projection,
+} from './schema';
+
+/**
+ * Sort key of a query: a property of the queried entity, a function
+ * computing the value to sort by, or either with a direction
+ */
+export type QueryOrder<E> =
+  | (keyof E & string)
+  | ((entity: E) => unknown)
+  | {
+      by: (keyof E & string) | ((entity: E) => unknown);
+      direction?: 'asc' | 'desc';
+    };
+
+/**
+ * Query over the entities of one type. Entities are denormalized according
+ * to the projection before they are filtered and sorted, so predicates and
+ * sort keys can use related entities
+ */
+export interface EntityQuery<E, P = undefined>
+  extends Omit<DenormalizationOptions, 'include' | 'cache'> {
+  /**
+   * Relationships to expand (defaults to all relationships)
+   */
+  include?: P;
+
+  /**
+   * Keeps only the entities for which the predicate returns true
+   */
+  where?: (entity: E) => boolean;
+
+  /**
+   * Sort keys, later keys decide between entities that are equal on the
+   * earlier ones
+   */
+  orderBy?: QueryOrder<E> | readonly QueryOrder<E>[];
+
+  /**
+   * Number of matching entities to skip
+   */
+  offset?: number;
+
+  /**
+   * Maximum number of entities to return
+   */
+  limit?: number;
+}
+
+/**
+ * Collects the entity types a query reads: the queried type and every type
+ * reachable through the expanded relationships
+ *
+ * @param schemaMap The schema map
+ * @param entityType The queried entity type
+ * @param projection The relationships to expand, all if undefined
+ * @returns The entity types the query depends on
+ */
+export function collectQueryTypes(
+  schemaMap: EntitySchemaMap,
+  entityType: string,
+  projection: Projection | undefined
+): Set<string> {
+  const types = new Set<string>();
+
+  // Without a projection every relationship is followed, so each type only
+  // needs to be visited once
+  const visit = (type: string, selection: Projection | undefined) => {
+    if (!selection && types.has(type)) {
+      return;
+    }
+    types.add(type);
+
+    for (const [key, relationship] of Object.entries(
+      schemaMap[type]?.relationships ?? {}
+    )) {
+      const nested = selection ? selection[key] : undefined;
+      if (selection && !nested) {
+        continue;
+      }
+      getRelationshipTypes(relationship).forEach((target) =>
+        visit(target, nested === true ? {} : nested)
+      );
+    }
+  };
+
+  visit(entityType, projection);
+  return types;
+}
+
+/**
+ * Orders values of any type: nullish values last, numbers, strings and dates
+ * by their natural order
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null || a === undefined) {
+    return 1;
+  }
+  if (b === null || b === undefined) {
+    return -1;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b);
+  }
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  return (left as number) < (right as number)
+    ? -1
+    : (left as number) > (right as number)
+      ? 1
+      : 0;
+}
+
+/**
+ * Creates a comparator from the sort keys of a query
+ */
+function createComparator<E>(
+  orderBy: QueryOrder<E> | readonly QueryOrder<E>[]
+): (a: E, b: E) => number {
+  const orders = (Array.isArray(orderBy) ? orderBy : [orderBy]).map(
+    (order: QueryOrder<E>) => {
+      const { by, direction = 'asc' } =
+        typeof order === 'object' ? order : { by: order };
+      const read =
+        typeof by === 'function'
+          ? by
+          : (entity: E) => entity[by as keyof E];
+      return { read, sign: direction === 'desc' ? -1 : 1 };
+    }
+  );
+
+  return (a, b) => {
+    for (const { read, sign } of orders) {
+      const result = compareValues(read(a), read(b));
+      if (result !== 0) {
+        return result * sign;
+      }
+    }
+    return 0;
+  };
+}
+
+/**
+ * Filters, sorts and pages denormalized entities
+ *
+ * @param entities The denormalized entities
+ * @param query The query
+ * @returns The entities matching the query
+ */
+export function applyQuery<E>(
+  entities: readonly E[],
+  query: EntityQuery<E, unknown>
+): E[] {
+  const matching = query.where ? entities.filter(query.where) : [...entities];
+  if (query.orderBy) {
+    matching.sort(createComparator(query.orderBy));
+  }
+
+  const offset = query.offset ?? 0;
+  return matching.slice(
+    offset,
+    query.limit === undefined ? undefined : offset + query.limit
+  );
+}
@@ -0,0 +1,208 @@
+import { EntitiesDraft } from './entities-draft';
+import { getAtPath, setAtPath, toPropertyPath } from './property-path';
+import {
+  EntityId,
+  EntityReference,
+  EntitySchemaMap,
+  getRelationshipTypes,
+  isPolymorphic,
+  isPolymorphicReference,
+  RelationshipConfig,
+  selectEntityId,
+} from './schema';
+
+/**
+ * A relationship of one entity type pointing at another entity type
+ */
+export interface IncomingRelationship {
+  /**
+   * The entity type holding the relationship
+   */
+  entityType: string;
+
+  /**
+   * The relationship key on that entity type
+   */
+  key: string;
+
+  /**
+   * The relationship configuration
+   */
+  relationship: RelationshipConfig;
+}
+
+/**
+ * An entity holding a reference to another entity
+ */
+export interface Referrer extends IncomingRelationship {
+  /**
+   * The ID of the entity holding the reference
+   */
+  id: EntityId;
+}
+
+/**
+ * Compares IDs regardless of whether they are stored as strings or numbers
+ */
+export function isSameId(a: unknown, b: unknown): boolean {
+  return a !== null && a !== undefined && String(a) === String(b);
+}
+
+/**
+ * Checks whether a stored reference points at the given entity
+ */
+export function isReferenceTo(
+  reference: unknown,
+  relationship: RelationshipConfig,
+  target: EntityReference
+): boolean {
+  if (isPolymorphic(relationship)) {
+    return (
+      isPolymorphicReference(reference) &&
+      reference.type === target.type &&
+      isSameId(reference.id, target.id)
+    );
+  }
+  return relationship.type === target.type && isSameId(reference, target.id);
+}
+
+/**
+ * Reads the entities referenced by a relationship value
+ *
+ * @param value The stored relationship value
+ * @param relationship The relationship configuration
+ * @returns The referenced entities
+ */
+export function readReferences(
+  value: unknown,
+  relationship: RelationshipConfig
+): EntityReference[] {
+  const values = Array.isArray(value) ? value : [value];
+
+  return values.flatMap((reference): EntityReference[] => {
+    if (reference === null || reference === undefined) {
+      return [];
+    }
+    if (isPolymorphic(relationship)) {
+      return isPolymorphicReference(reference) ? [reference] : [];
+    }
+    return [{ type: relationship.type, id: reference as EntityId }];
+  });
+}
+
+/**
+ * Removes the references to an entity from a relationship value: they are
+ * filtered out of arrays and a single reference is cleared to null
+ *
+ * @param value The stored relationship value
+ * @param relationship The relationship configuration
+ * @param target The entity whose references are removed
+ * @returns The new value, or the same value if it held no reference
+ */
+export function withoutReference(
+  value: unknown,
+  relationship: RelationshipConfig,
+  target: EntityReference
+): unknown {
+  if (Array.isArray(value)) {
+    const filtered = value.filter(
+      (reference) => !isReferenceTo(reference, relationship, target)
+    );
+    return filtered.length === value.length ? value : filtered;
+  }
+  return isReferenceTo(value, relationship, target) ? null : value;
+}
+
+/**
+ * Removes the references to an entity from a relationship of another entity
+ *
+ * @param draft The entities being changed
+ * @param referrer The entity holding the references and the relationship
+ * @param target The entity whose references are removed
+ */
+export function unlinkReference(
+  draft: EntitiesDraft,
+  referrer: Referrer,
+  target: EntityReference
+): void {
+  const entity = draft.get(referrer.entityType, referrer.id);
+  if (entity === undefined) {
+    return;
+  }
+
+  const path = toPropertyPath(referrer.key);
+  const value = getAtPath(entity, path);
+  const updated = withoutReference(value, referrer.relationship, target);
+  if (updated !== value) {
+    draft.set(referrer.entityType, referrer.id, setAtPath(entity, path, updated));
+  }
+}
+
+/**
+ * Collects, per entity type, the relationships of all entity types that can
+ * point at it
+ *
+ * @param schemaMap The schema map
+ * @returns The incoming relationships keyed by the target entity type
+ */
+export function collectIncomingRelationships(
+  schemaMap: EntitySchemaMap
+): Record<string, IncomingRelationship[]> {
+  const incoming: Record<string, IncomingRelationship[]> = {};
+
+  for (const [entityType, schema] of Object.entries(schemaMap)) {
+    for (const [key, relationship] of Object.entries(
+      schema.relationships ?? {}
+    )) {
+      for (const targetType of getRelationshipTypes(relationship)) {
+        (incoming[targetType] ??= []).push({ entityType, key, relationship });
+      }
+    }
+  }
+
+  return incoming;
+}
+
+/**
+ * Finds every entity holding a reference to the given entity
+ *
+ * @param draft The entities to search
+ * @param schemaMap The schema map
+ * @param incoming The incoming relationships of the schema map
+ * @param target The referenced entity
+ * @returns The referencing entities with the relationship holding the reference
+ */
+export function findReferrers(
+  draft: EntitiesDraft,
+  schemaMap: EntitySchemaMap,
+  incoming: Record<string, IncomingRelationship[]>,
+  target: EntityReference
+): Referrer[] {
+  const referrers: Referrer[] = [];
+
+  for (const relationship of incoming[target.type] ?? []) {
+    const path = toPropertyPath(relationship.key);
+
+    const schema = schemaMap[relationship.entityType];
+    for (const [key, entity] of draft.entries(relationship.entityType)) {
+      const references = readReferences(
+        getAtPath(entity, path),
+        relationship.relationship
+      );
+      if (
+        references.some(
+          (reference) =>
+            reference.type === target.type && isSameId(reference.id, target.id)
+        )
+      ) {
+        // Use the ID held by the entity rather than the string key of the map
+        referrers.push({
+          ...relationship,
+          id: selectEntityId(schema, entity) ?? key,
+        });
+      }
+    }
+  }
+
+  return referrers;
+}
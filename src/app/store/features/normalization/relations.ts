@@ -0,0 +1,251 @@
+import { EntitiesDraft } from './entities-draft';
+import { InverseRelationship, syncInverseRelationships } from './inverse';
+import { getAtPath, setAtPath, toPropertyPath } from './property-path';
+import { isReferenceTo } from './references';
+import {
+  EntityIdentifier,
+  EntityReference,
+  EntitySchemaMap,
+  isPolymorphic,
+  isPolymorphicReference,
+  OperationResult,
+  RelationshipConfig,
+  resolveEntityId,
+} from './schema';
+
+/**
+ * A change of the references held by one relationship of an entity
+ *
+ * - `add`: inserts a reference into a hasMany relationship, at the end
+ *   unless an index is given
+ * - `remove`: removes a reference from a hasMany relationship, or clears a
+ *   hasOne relationship holding it
+ * - `reorder`: moves a reference of a hasMany relationship to an index
+ * - `set`: points a hasOne relationship at an entity, or clears it with null
+ */
+export type RelationEdit =
+  | { op: 'add'; related: EntityIdentifier; index?: number }
+  | { op: 'remove'; related: EntityIdentifier }
+  | { op: 'reorder'; related: EntityIdentifier; index: number }
+  | { op: 'set'; related: EntityIdentifier | null };
+
+/**
+ * Resolves a related entity into the entity it refers to, checking that the
+ * relationship may point at its type
+ */
+function resolveRelated(
+  schemaMap: EntitySchemaMap,
+  relationship: RelationshipConfig,
+  related: EntityIdentifier
+): OperationResult<EntityReference> {
+  if (isPolymorphic(relationship)) {
+    if (!isPolymorphicReference(related)) {
+      return {
+        success: false,
+        error: 'Expected a { type, id } reference for a polymorphic relationship',
+      };
+    }
+    if (!relationship.types.includes(related.type)) {
+      return {
+        success: false,
+        error: `Relationship cannot point at ${related.type}, expected one of: ${relationship.types.join(', ')}`,
+      };
+    }
+    return { success: true, data: { type: related.type, id: related.id } };
+  }
+
+  const schema = schemaMap[relationship.type];
+  const id = schema ? resolveEntityId(schema, related) : undefined;
+  if (id === undefined) {
+    return {
+      success: false,
+      error: `Cannot resolve ID ${JSON.stringify(related)} in collection ${relationship.type}`,
+    };
+  }
+  return { success: true, data: { type: relationship.type, id } };
+}
+
+/**
+ * Checks that an index lies within the bounds of a list
+ */
+function isValidIndex(index: number, length: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index <= length;
+}
+
+/**
+ * Applies a relationship change to the stored value of the relationship
+ */
+function applyEdit(
+  value: unknown,
+  relationship: RelationshipConfig,
+  key: string,
+  edit: RelationEdit,
+  target: EntityReference | null
+): OperationResult<unknown> {
+  // The value stored for the related entity
+  const reference =
+    target && isPolymorphic(relationship)
+      ? { type: target.type, id: target.id }
+      : (target?.id ?? null);
+
+  if (edit.op === 'set') {
+    return relationship.isArray
+      ? {
+          success: false,
+          error: `'${key}' is a hasMany relationship, use add, remove or reorder`,
+        }
+      : { success: true, data: reference };
+  }
+
+  if (!relationship.isArray) {
+    if (edit.op === 'remove' && target) {
+      return isReferenceTo(value, relationship, target)
+        ? { success: true, data: null }
+        : {
+            success: false,
+            error: `'${key}' does not reference ${target.type} '${target.id}'`,
+          };
+    }
+    return {
+      success: false,
+      error: `'${key}' is a hasOne relationship, use set instead`,
+    };
+  }
+
+  const values: unknown[] = Array.isArray(value) ? value : [];
+  const position = target
+    ? values.findIndex((item) => isReferenceTo(item, relationship, target))
+    : -1;
+  const described = target ? `${target.type} '${target.id}'` : '';
+
+  switch (edit.op) {
+    case 'add': {
+      if (position !== -1) {
+        return {
+          success: false,
+          error: `'${key}' already references ${described}`,
+        };
+      }
+      const index = edit.index ?? values.length;
+      if (!isValidIndex(index, values.length)) {
+        return {
+          success: false,
+          error: `Index ${index} is out of range for '${key}'`,
+        };
+      }
+      return {
+        success: true,
+        data: [...values.slice(0, index), reference, ...values.slice(index)],
+      };
+    }
+    case 'remove':
+      return position === -1
+        ? {
+            success: false,
+            error: `'${key}' does not reference ${described}`,
+          }
+        : { success: true, data: values.filter((_, i) => i !== position) };
+    case 'reorder': {
+      if (position === -1) {
+        return {
+          success: false,
+          error: `'${key}' does not reference ${described}`,
+        };
+      }
+      const remaining = values.filter((_, i) => i !== position);
+      if (!isValidIndex(edit.index, remaining.length)) {
+        return {
+          success: false,
+          error: `Index ${edit.index} is out of range for '${key}'`,
+        };
+      }
+      return {
+        success: true,
+        data: [
+          ...remaining.slice(0, edit.index),
+          values[position],
+          ...remaining.slice(edit.index),
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * Changes the references held by a relationship of an entity and keeps the
+ * inverse side consistent. Entities that are added or set must exist.
+ * Nothing is changed when the change fails
+ *
+ * @param draft The entities being changed
+ * @param schemaMap The schema map
+ * @param inverses The inverse relationships of the schema map
+ * @param owner The entity holding the relationship
+ * @param key The relationship key, dotted keys included
+ * @param edit The change to apply
+ * @returns The changed entity
+ */
+export function editRelation(
+  draft: EntitiesDraft,
+  schemaMap: EntitySchemaMap,
+  inverses: Record<string, InverseRelationship[]>,
+  owner: EntityReference,
+  key: string,
+  edit: RelationEdit
+): OperationResult<unknown> {
+  const relationship = schemaMap[owner.type]?.relationships?.[key];
+  if (!relationship) {
+    return {
+      success: false,
+      error: `${owner.type} has no relationship '${key}'`,
+    };
+  }
+
+  const previous = draft.get(owner.type, owner.id);
+  if (previous === undefined) {
+    return {
+      success: false,
+      error: `Entity with ID ${owner.id} not found in collection ${owner.type}`,
+    };
+  }
+
+  // Resolve the related entity, which must exist unless it is removed
+  let target: EntityReference | null = null;
+  if (edit.related !== null) {
+    const resolved = resolveRelated(schemaMap, relationship, edit.related);
+    if (!resolved.success) {
+      return resolved;
+    }
+    target = resolved.data;
+    if (edit.op !== 'remove' && !draft.has(target.type, target.id)) {
+      return {
+        success: false,
+        error: `Entity with ID ${target.id} not found in collection ${target.type}`,
+      };
+    }
+  }
+
+  const path = toPropertyPath(key);
+  const edited = applyEdit(
+    getAtPath(previous, path),
+    relationship,
+    key,
+    edit,
+    target
+  );
+  if (!edited.success) {
+    return edited;
+  }
+
+  const next = setAtPath(previous, path, edited.data);
+  draft.set(owner.type, owner.id, next);
+  syncInverseRelationships(
+    draft,
+    schemaMap,
+    inverses,
+    owner.type,
+    owner.id,
+    previous,
+    next
+  );
+  return { success: true, data: next };
+}
@@ -0,0 +1,177 @@
+import { toPropertyPath } from './property-path';
+import {
+  EntitySchema,
+  EntitySchemaMap,
+  getRelationshipTypes,
+  isPolymorphic,
+  RelationshipConfig,
+} from './schema';
+
+/**
+ * Schema maps that passed validation, so repeated calls stay cheap
+ */
+const validSchemaMaps = new WeakSet<EntitySchemaMap>();
+
+/**
+ * Describes what is wrong with the ID selector of a schema, if anything
+ */
+function describeIdKeyProblem(idKey: unknown): string | undefined {
+  if (idKey === undefined || typeof idKey === 'function') {
+    return undefined;
+  }
+  if (typeof idKey === 'string') {
+    return idKey ? undefined : 'an empty idKey';
+  }
+  if (Array.isArray(idKey)) {
+    if (idKey.length === 0) {
+      return 'an empty composite idKey';
+    }
+    return idKey.every((part) => typeof part === 'string' && part)
+      ? undefined
+      : 'a composite idKey with an empty or non-string part';
+  }
+  return `an idKey of type ${typeof idKey}, expected a key, a list of keys or a function`;
+}
+
+/**
+ * Checks whether a value looks like a relationship built with `hasOne`,
+ * `hasMany` or their polymorphic variants
+ */
+function isRelationshipConfig(value: unknown): value is RelationshipConfig {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const config = value as Record<string, unknown>;
+  return (
+    typeof config['isArray'] === 'boolean' &&
+    (typeof config['type'] === 'string' || Array.isArray(config['types']))
+  );
+}
+
+/**
+ * Collects the problems of the relationships of a single schema
+ */
+function validateRelationships(
+  entityType: string,
+  schema: EntitySchema<unknown>,
+  schemaMap: EntitySchemaMap
+): string[] {
+  const problems: string[] = [];
+  const relationships: Record<string, unknown> = schema.relationships ?? {};
+  const paths: { key: string; path: string }[] = [];
+
+  for (const [key, relationship] of Object.entries(relationships)) {
+    const name = `Relationship '${entityType}.${key}'`;
+
+    if (toPropertyPath(key).some((segment) => !segment)) {
+      problems.push(`${name} has an empty segment in its key`);
+    }
+    if (!isRelationshipConfig(relationship)) {
+      problems.push(
+        `${name} is not a relationship created with hasOne, hasMany, hasOnePolymorphic or hasManyPolymorphic`
+      );
+      continue;
+    }
+
+    // Every target must be a known entity type
+    const targets = getRelationshipTypes(relationship);
+    if (targets.length === 0) {
+      problems.push(`${name} does not allow any entity type`);
+    }
+    targets
+      .filter((target) => !schemaMap[target])
+      .forEach((target) =>
+        problems.push(`${name} points at unknown entity type '${target}'`)
+      );
+
+    // Keys must not address the same property or a property inside another
+    const path = toPropertyPath(key).join('.');
+    paths
+      .filter(
+        (other) =>
+          other.path === path ||
+          other.path.startsWith(`${path}.`) ||
+          path.startsWith(`${other.path}.`)
+      )
+      .forEach((other) =>
+        problems.push(
+          `${name} conflicts with relationship '${entityType}.${other.key}'`
+        )
+      );
+    paths.push({ key, path });
+
+    // The inverse side must exist and point back at this relationship
+    if (isPolymorphic(relationship) || !relationship.inverse) {
+      continue;
+    }
+    const targetSchema = schemaMap[relationship.type];
+    if (!targetSchema) {
+      continue;
+    }
+    const inverse = targetSchema.relationships?.[relationship.inverse];
+    const inverseName = `'${relationship.type}.${relationship.inverse}'`;
+    if (!isRelationshipConfig(inverse)) {
+      problems.push(
+        `${name} declares inverse ${inverseName}, which is not a relationship`
+      );
+    } else if (isPolymorphic(inverse) || inverse.type !== entityType) {
+      problems.push(
+        `${name} declares inverse ${inverseName}, which does not point at '${entityType}'`
+      );
+    } else if (inverse.inverse && inverse.inverse !== key) {
+      problems.push(
+        `${name} declares inverse ${inverseName}, whose own inverse is '${inverse.inverse}'`
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks a schema map for problems that would otherwise surface as obscure
+ * errors during normalization: missing schemas, invalid ID selectors,
+ * relationships pointing at unknown entity types, conflicting relationship
+ * keys and mismatched inverse relationships
+ *
+ * @param schemaMap The schema map
+ * @returns A description of every problem found, empty if the map is valid
+ */
+export function validateSchemaMap(schemaMap: EntitySchemaMap): string[] {
+  const problems: string[] = [];
+
+  for (const [entityType, schema] of Object.entries(schemaMap)) {
+    if (typeof schema !== 'object' || schema === null) {
+      problems.push(`Schema for '${entityType}' is missing`);
+      continue;
+    }
+
+    const idKeyProblem = describeIdKeyProblem(schema.idKey);
+    if (idKeyProblem) {
+      problems.push(`Schema for '${entityType}' has ${idKeyProblem}`);
+    }
+
+    problems.push(...validateRelationships(entityType, schema, schemaMap));
+  }
+
+  return problems;
+}
+
+/**
+ * Validates a schema map and throws a single error listing every problem
+ *
+ * @param schemaMap The schema map
+ * @throws Error if the schema map has any problem
+ */
+export function assertValidSchemaMap(schemaMap: EntitySchemaMap): void {
+  if (validSchemaMaps.has(schemaMap)) {
+    return;
+  }
+
+  const problems = validateSchemaMap(schemaMap);
+  if (problems.length > 0) {
+    const list = problems.map((problem) => `- ${problem}`).join('\n');
+    throw new Error(`Invalid schema map:\n${list}`);
+  }
+  validSchemaMaps.add(schemaMap);
+}
@@ -5,6 +5,51 @@ import { Type } from '@angular/core';
  */
 export type EntityId = string | number;
 
+/**
+ * Derives the ID of an entity. Declared as a method signature so that
+ * schemas of specific entity types stay assignable to `EntitySchemaMap`
+ */
+export type IdSelectorFn<T> = {
+  selectId(entity: T): EntityId;
+}['selectId'];
+
+/**
+ * Selects the ID of an entity: a property name, the property names of a
+ * composite key, or a function that derives the ID
+ */
+export type IdSelector<T> = string | readonly string[] | IdSelectorFn<T>;
+
+/**
+ * Identifies a stored entity: its (serialized) ID, the parts of a composite
+ * key in `idKey` order, or an object holding the key properties
+ */
+export type EntityIdentifier = EntityId | readonly EntityId[] | object;
+
+/**
+ * Merges an incoming entity into the one already stored under the same ID.
+ * Declared as a method signature for the same reason as `IdSelectorFn`
+ */
+export type MergeFn<T> = {
+  merge(existing: T, incoming: T): T;
+}['merge'];
+
+/**
+ * How an incoming entity is combined with an existing entity with the same ID
+ *
+ * - `replace`: the incoming entity replaces the existing one
+ * - `shallow`: the incoming properties are spread over the existing entity
+ * - `deep`: nested plain objects are merged recursively, other values
+ *   (including arrays) are taken from the incoming entity
+ * - `keepExisting`: the existing entity is kept and the incoming one ignored
+ * - a function receiving the existing and the incoming entity
+ */
+export type MergeStrategy<T = unknown> =
+  | 'replace'
+  | 'shallow'
+  | 'deep'
+  | 'keepExisting'
+  | MergeFn<T>;
+
 /**
  * Represents a map of entities where the key is the entity ID
  */
@@ -18,10 +63,38 @@ export interface NormalizedData {
   result: EntityId | EntityId[] | Record<string, EntityId | EntityId[]>;
 }
 
+/**
+ * What happens to an entity holding a reference when the referenced entity
+ * is removed
+ *
+ * - `cascade`: the referencing entity is removed as well
+ * - `nullify`: the reference is cleared (set to null or removed from the array)
+ * - `restrict`: the removal fails while the reference exists
+ */
+export type DeletePolicy = 'cascade' | 'nullify' | 'restrict';
+
+/**
+ * Options for a relationship between entities
+ */
+export interface RelationshipOptions {
+  /**
+   * What happens to entities holding this relationship when the entity
+   * they reference is removed. Without a policy the reference is left as is
+   */
+  onDelete?: DeletePolicy;
+
+  /**
+   * Key of the relationship on the related entity type that points back to
+   * this one (e.g. 'post' for `posts.comments`). Both sides are kept
+   * consistent by the store when either of them changes
+   */
+  inverse?: string;
+}
+
 /**
  * Defines a one-to-one relationship between entities
  */
-export interface HasOne<T extends string> {
+export interface HasOne<T extends string> extends RelationshipOptions {
   type: T;
   isArray: false;
 }
@@ -29,48 +102,244 @@ export interface HasOne<T extends string> {
 /**
  * Defines a one-to-many relationship between entities
  */
-export interface HasMany<T extends string> {
+export interface HasMany<T extends string> extends RelationshipOptions {
   type: T;
   isArray: true;
 }
 
+/**
+ * Resolves the entity type of a nested object in a polymorphic relationship,
+ * either by name of the property holding the type or by a resolver function
+ */
+export type PolymorphicDiscriminator<T extends string> =
+  | string
+  | ((value: Record<string, unknown>) => T | undefined);
+
+/**
+ * Defines a one-to-one relationship to an entity of one of several types
+ */
+export interface HasOnePolymorphic<T extends string>
+  extends Pick<RelationshipOptions, 'onDelete'> {
+  types: T[];
+  isArray: false;
+  discriminator: PolymorphicDiscriminator<T>;
+}
+
+/**
+ * Defines a one-to-many relationship to entities of several types
+ */
+export interface HasManyPolymorphic<T extends string>
+  extends Pick<RelationshipOptions, 'onDelete'> {
+  types: T[];
+  isArray: true;
+  discriminator: PolymorphicDiscriminator<T>;
+}
+
+/**
+ * Reference to an entity of a specific type
+ */
+export interface EntityReference<T extends string = string> {
+  type: T;
+  id: EntityId;
+}
+
+/**
+ * Reference stored in place of an entity of a polymorphic relationship
+ */
+export type PolymorphicReference<T extends string = string> = EntityReference<T>;
+
 /**
  * Defines a relationship between entities
  */
-export type RelationshipConfig = HasOne<string> | HasMany<string>;
+export type RelationshipConfig =
+  | HasOne<string>
+  | HasMany<string>
+  | HasOnePolymorphic<string>
+  | HasManyPolymorphic<string>;
 
 /**
  * Creates a one-to-one relationship configuration
  */
-export function hasOne<T extends string>(entityType: T): HasOne<T> {
-  return { type: entityType, isArray: false };
+export function hasOne<T extends string>(
+  entityType: T,
+  options: RelationshipOptions = {}
+): HasOne<T> {
+  return { type: entityType, isArray: false, ...options };
 }
 
 /**
  * Creates a one-to-many relationship configuration
  */
-export function hasMany<T extends string>(entityType: T): HasMany<T> {
-  return { type: entityType, isArray: true };
+export function hasMany<T extends string>(
+  entityType: T,
+  options: RelationshipOptions = {}
+): HasMany<T> {
+  return { type: entityType, isArray: true, ...options };
+}
+
+/**
+ * Creates a one-to-one relationship configuration whose target can be an
+ * entity of any of the given types. The type of a nested object is read from
+ * the discriminator property (defaults to '__typename'), whose value must be
+ * one of the given types, or is returned by a resolver function
+ */
+export function hasOnePolymorphic<const T extends string>(
+  entityTypes: T[],
+  discriminator: PolymorphicDiscriminator<T> = '__typename',
+  options: Pick<RelationshipOptions, 'onDelete'> = {}
+): HasOnePolymorphic<T> {
+  return { types: entityTypes, isArray: false, discriminator, ...options };
+}
+
+/**
+ * Creates a one-to-many relationship configuration whose targets can be
+ * entities of any of the given types
+ */
+export function hasManyPolymorphic<const T extends string>(
+  entityTypes: T[],
+  discriminator: PolymorphicDiscriminator<T> = '__typename',
+  options: Pick<RelationshipOptions, 'onDelete'> = {}
+): HasManyPolymorphic<T> {
+  return { types: entityTypes, isArray: true, discriminator, ...options };
+}
+
+/**
+ * Checks whether a relationship targets entities of several types
+ */
+export function isPolymorphic(
+  relationship: RelationshipConfig
+): relationship is HasOnePolymorphic<string> | HasManyPolymorphic<string> {
+  return 'types' in relationship;
+}
+
+/**
+ * Returns every entity type a relationship can point to
+ */
+export function getRelationshipTypes(relationship: RelationshipConfig): string[] {
+  return isPolymorphic(relationship) ? relationship.types : [relationship.type];
+}
+
+/**
+ * Checks whether a value is a `{ type, id }` reference of a polymorphic
+ * relationship rather than a nested entity. A nested entity with a `type`
+ * discriminator has the same shape, so `normalize` checks the discriminator
+ * first
+ */
+export function isPolymorphicReference(
+  value: unknown
+): value is PolymorphicReference {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const reference = value as Record<string, unknown>;
+  return (
+    Object.keys(reference).length === 2 &&
+    typeof reference['type'] === 'string' &&
+    (typeof reference['id'] === 'string' || typeof reference['id'] === 'number')
+  );
+}
+
+/**
+ * Resolves the entity type of a nested object of a polymorphic relationship
+ *
+ * @param relationship The polymorphic relationship
+ * @param value The nested object
+ * @returns The entity type, or undefined if it is not one of the allowed types
+ */
+export function resolvePolymorphicType(
+  relationship: HasOnePolymorphic<string> | HasManyPolymorphic<string>,
+  value: Record<string, unknown>
+): string | undefined {
+  const { discriminator } = relationship;
+  const type =
+    typeof discriminator === 'function'
+      ? discriminator(value)
+      : value[discriminator];
+
+  return typeof type === 'string' && relationship.types.includes(type)
+    ? type
+    : undefined;
 }
 
 /**
  * Configuration for an entity schema
  */
-export interface EntitySchema<T> {
+export interface EntitySchema<
+  T,
+  R extends Record<string, RelationshipConfig> = Record<string, RelationshipConfig>
+> {
   /**
    * The entity type
    */
   entity: Type<T>;
   
   /**
-   * The property used as ID (defaults to 'id')
+   * The property used as ID, the properties of a composite key or a
+   * function deriving the ID (defaults to 'id')
    */
-  idKey?: string;
+  idKey?: IdSelector<T>;
   
   /**
    * Relationships with other entities
    */
-  relationships?: Record<string, RelationshipConfig>;
+  relationships?: R;
+
+  /**
+   * How entities of this type are merged with existing ones
+   * (defaults to 'replace')
+   */
+  merge?: MergeStrategy<T>;
+
+  /**
+   * Time in milliseconds after which a fetched entity of this type is
+   * stale. Entities of types without a TTL only become stale when they are
+   * invalidated
+   */
+  ttl?: number;
+}
+
+/**
+ * Additional options for an entity schema
+ */
+export interface EntitySchemaOptions<T> {
+  /**
+   * How entities of this type are merged with existing ones
+   * (defaults to 'replace')
+   */
+  merge?: MergeStrategy<T>;
+
+  /**
+   * Time in milliseconds after which a fetched entity of this type is
+   * stale. Entities of types without a TTL only become stale when they are
+   * invalidated
+   */
+  ttl?: number;
+}
+
+/**
+ * Configuration object accepted by `createEntitySchema`. Declaring the entity
+ * with `type<T>()` lets the relationship types be inferred as well
+ */
+export interface EntitySchemaConfig<
+  T,
+  R extends Record<string, RelationshipConfig>
+> extends EntitySchemaOptions<T> {
+  /**
+   * The entity type, declared with `type<T>()` from `@ngrx/signals`
+   */
+  entity: T;
+
+  /**
+   * The property used as ID, the properties of a composite key or a
+   * function deriving the ID (defaults to 'id')
+   */
+  idKey?: IdSelector<T>;
+
+  /**
+   * Relationships with other entities
+   */
+  relationships?: R;
 }
 
 /**
@@ -78,20 +347,381 @@ export interface EntitySchema<T> {
  */
 export type EntitySchemaMap = Record<string, EntitySchema<unknown>>;
 
+/**
+ * Creates an entity schema from a configuration object. The entity and
+ * relationship types are kept, so stores built from the schema are fully typed
+ */
+export function createEntitySchema<
+  T,
+  R extends Record<string, RelationshipConfig> = Record<never, never>
+>(config: EntitySchemaConfig<T, R>): EntitySchema<T, R>;
 /**
  * Creates an entity schema with the specified ID key and relationships
  */
 export function createEntitySchema<T>(
-  idKey = 'id',
-  relationships: Record<string, RelationshipConfig> = {}
+  idKey?: IdSelector<T>,
+  relationships?: Record<string, RelationshipConfig>,
+  options?: EntitySchemaOptions<T>
+): EntitySchema<T>;
+export function createEntitySchema<T>(
+  idKeyOrConfig:
+    | IdSelector<T>
+    | EntitySchemaConfig<T, Record<string, RelationshipConfig>> = 'id',
+  relationships: Record<string, RelationshipConfig> = {},
+  options: EntitySchemaOptions<T> = {}
 ): EntitySchema<T> {
+  if (typeof idKeyOrConfig === 'object' && !Array.isArray(idKeyOrConfig)) {
+    const config = idKeyOrConfig as EntitySchemaConfig<
+      T,
+      Record<string, RelationshipConfig>
+    >;
+    return {
+      ...config,
+      entity: {} as Type<T>,
+      idKey: config.idKey ?? 'id',
+      relationships: config.relationships ?? {},
+    };
+  }
+
   return {
     entity: {} as Type<T>,
-    idKey,
-    relationships
+    idKey: idKeyOrConfig as IdSelector<T>,
+    relationships,
+    ...options
   };
 }
 
+/**
+ * Entity type of a schema
+ */
+export type SchemaEntity<S> = S extends { entity: Type<infer T> } ? T : never;
+
+/**
+ * Relationships declared by a schema
+ */
+export type SchemaRelationships<S> = S extends { relationships?: infer R }
+  ? NonNullable<R>
+  : never;
+
+/**
+ * Entity type names of a schema map
+ */
+export type EntityTypeKey<T extends EntitySchemaMap> = keyof T & string;
+
+/**
+ * Relationship keys of an entity type of a schema map
+ */
+export type RelationshipKey<
+  T extends EntitySchemaMap,
+  K extends EntityTypeKey<T>
+> = keyof SchemaRelationships<T[K]> & string;
+
+/**
+ * Entity type stored under a key of a schema map
+ */
+export type EntityOf<
+  T extends EntitySchemaMap,
+  K extends EntityTypeKey<T>
+> = SchemaEntity<T[K]>;
+
+/**
+ * Denormalized form of the entities a relationship points to
+ */
+type DenormalizedTarget<T extends EntitySchemaMap, U> =
+  U extends EntityTypeKey<T> ? DenormalizedEntity<T, U> : unknown;
+
+/**
+ * Denormalized value of a relationship property
+ */
+type DenormalizedRelationship<T extends EntitySchemaMap, C> =
+  C extends HasOne<infer U>
+    ? DenormalizedTarget<T, U>
+    : C extends HasMany<infer U>
+      ? DenormalizedTarget<T, U>[]
+      : C extends HasOnePolymorphic<infer U>
+        ? DenormalizedTarget<T, U>
+        : C extends HasManyPolymorphic<infer U>
+          ? DenormalizedTarget<T, U>[]
+          : never;
+
+/**
+ * Relationships declared under a dotted path below the property P, keyed by
+ * the rest of the path
+ */
+type NestedRelationships<R, P extends string> = {
+  [K in keyof R as K extends `${P}.${infer Rest}` ? Rest : never]: R[K];
+};
+
+/**
+ * Object with the relationships R, including dotted paths into nested
+ * objects, replaced by the denormalized related entities
+ */
+type DenormalizedObject<T extends EntitySchemaMap, E, R> = {
+  [P in keyof E]: P extends keyof R
+    ?
+        | DenormalizedRelationship<T, R[P]>
+        | Extract<E[P], null | undefined>
+    : P extends string
+      ? keyof NestedRelationships<R, P> extends never
+        ? E[P]
+        :
+            | DenormalizedObject<
+                T,
+                NonNullable<E[P]>,
+                NestedRelationships<R, P>
+              >
+            | Extract<E[P], null | undefined>
+      : E[P];
+};
+
+/**
+ * Entity of a schema map with its relationships replaced by the
+ * denormalized related entities. Schemas whose relationship types are not
+ * known (created without a configuration object) keep their entity type
+ */
+export type DenormalizedEntity<
+  T extends EntitySchemaMap,
+  K extends EntityTypeKey<T>
+> = string extends keyof SchemaRelationships<T[K]>
+  ? EntityOf<T, K>
+  : DenormalizedObject<T, EntityOf<T, K>, SchemaRelationships<T[K]>>;
+
+/**
+ * Element type of an array type
+ */
+type ArrayElement<V> = V extends readonly (infer I)[] ? I : never;
+
+/**
+ * Nested form of the entities a relationship points to that normalization
+ * accepts in place of a reference
+ */
+type NormalizableTarget<T extends EntitySchemaMap, U> =
+  U extends EntityTypeKey<T> ? NormalizableEntity<T, U> : unknown;
+
+/**
+ * Value of a relationship property accepted by normalization: the stored
+ * reference V or the nested related entities, also mixed in arrays
+ */
+type NormalizableRelationship<T extends EntitySchemaMap, C, V> =
+  C extends HasOne<infer U>
+    ? V | NormalizableTarget<T, U>
+    : C extends HasMany<infer U>
+      ?
+          | (ArrayElement<V> | NormalizableTarget<T, U>)[]
+          | Extract<V, null | undefined>
+      : C extends HasOnePolymorphic<infer U>
+        ? V | NormalizableTarget<T, U>
+        : C extends HasManyPolymorphic<infer U>
+          ?
+              | (ArrayElement<V> | NormalizableTarget<T, U>)[]
+              | Extract<V, null | undefined>
+          : V;
+
+/**
+ * Object with the relationships R, including dotted paths into nested
+ * objects, also accepting nested related entities
+ */
+type NormalizableObject<T extends EntitySchemaMap, E, R> = {
+  [P in keyof E]: P extends keyof R
+    ? NormalizableRelationship<T, R[P], E[P]>
+    : P extends string
+      ? keyof NestedRelationships<R, P> extends never
+        ? E[P]
+        :
+            | NormalizableObject<
+                T,
+                NonNullable<E[P]>,
+                NestedRelationships<R, P>
+              >
+            | Extract<E[P], null | undefined>
+      : E[P];
+};
+
+/**
+ * Entity of a schema map whose relationships take references or nested
+ * related entities, the shape accepted by normalization
+ */
+export type NormalizableEntity<
+  T extends EntitySchemaMap,
+  K extends EntityTypeKey<T>
+> = string extends keyof SchemaRelationships<T[K]>
+  ? EntityOf<T, K>
+  : NormalizableObject<T, EntityOf<T, K>, SchemaRelationships<T[K]>>;
+
+/**
+ * Projection of the relationships a relationship configuration points to
+ */
+type TargetProjection<T extends EntitySchemaMap, C> =
+  C extends
+    | HasOne<infer U>
+    | HasMany<infer U>
+    | HasOnePolymorphic<infer U>
+    | HasManyPolymorphic<infer U>
+    ? U extends EntityTypeKey<T>
+      ? EntityProjection<T, U>
+      : never
+    : never;
+
+/**
+ * Projection of the relationships of an entity type of a schema map.
+ * Schemas whose relationship types are not known accept any projection
+ */
+export type EntityProjection<
+  T extends EntitySchemaMap,
+  K extends EntityTypeKey<T>
+> = string extends keyof SchemaRelationships<T[K]>
+  ? Projection
+  : {
+      [P in keyof SchemaRelationships<T[K]>]?:
+        | true
+        | TargetProjection<T, SchemaRelationships<T[K]>[P]>;
+    };
+
+/**
+ * Projected form of the entities a relationship points to. `true` leaves
+ * all relationships of the related entity as IDs
+ */
+type ProjectedTarget<T extends EntitySchemaMap, U, S> =
+  U extends EntityTypeKey<T>
+    ? ProjectedEntity<T, U, S extends true ? Record<never, never> : S>
+    : unknown;
+
+/**
+ * Projected value of a relationship property
+ */
+type ProjectedRelationship<T extends EntitySchemaMap, C, S> =
+  C extends HasOne<infer U>
+    ? ProjectedTarget<T, U, S>
+    : C extends HasMany<infer U>
+      ? ProjectedTarget<T, U, S>[]
+      : C extends HasOnePolymorphic<infer U>
+        ? ProjectedTarget<T, U, S>
+        : C extends HasManyPolymorphic<infer U>
+          ? ProjectedTarget<T, U, S>[]
+          : never;
+
+/**
+ * Object with the relationships R that are selected by the projection P
+ * replaced by the projected related entities
+ */
+type ProjectedObject<T extends EntitySchemaMap, E, R, P> = {
+  [Q in keyof E]: Q extends keyof R
+    ? Q extends keyof P
+      ?
+          | ProjectedRelationship<T, R[Q], NonNullable<P[Q]>>
+          | Extract<E[Q], null | undefined>
+      : E[Q]
+    : Q extends string
+      ? keyof NestedRelationships<P, Q> extends never
+        ? E[Q]
+        :
+            | ProjectedObject<
+                T,
+                NonNullable<E[Q]>,
+                NestedRelationships<R, Q>,
+                NestedRelationships<P, Q>
+              >
+            | Extract<E[Q], null | undefined>
+      : E[Q];
+};
+
+/**
+ * Entity of a schema map with only the relationships selected by a
+ * projection replaced by the projected related entities
+ */
+export type ProjectedEntity<
+  T extends EntitySchemaMap,
+  K extends EntityTypeKey<T>,
+  P
+> = string extends keyof SchemaRelationships<T[K]>
+  ? EntityOf<T, K>
+  : ProjectedObject<T, EntityOf<T, K>, SchemaRelationships<T[K]>, P>;
+
+/**
+ * Result of denormalizing an entity: projected when a projection is given,
+ * fully denormalized otherwise
+ */
+export type DenormalizedResult<
+  T extends EntitySchemaMap,
+  K extends EntityTypeKey<T>,
+  P
+> = [P] extends [undefined]
+  ? DenormalizedEntity<T, K>
+  : ProjectedEntity<T, K, P>;
+
+/**
+ * Serializes the parts of a composite key into a stable string ID. Every
+ * part is URI-encoded and the parts are joined with ':', so
+ * `['post1', 'user:2']` becomes `'post1:user%3A2'`
+ *
+ * @param parts The key parts in `idKey` order
+ * @returns The serialized ID
+ */
+export function serializeEntityKey(parts: readonly EntityId[]): string {
+  return parts.map((part) => encodeURIComponent(String(part))).join(':');
+}
+
+/**
+ * Describes the ID selector of a schema for error messages
+ */
+export function describeIdSelector<T>(idKey: IdSelector<T> = 'id'): string {
+  if (typeof idKey === 'function') {
+    return 'the ID selector function';
+  }
+  if (typeof idKey === 'string') {
+    return `key '${idKey}'`;
+  }
+  return `composite key '${idKey.join("', '")}'`;
+}
+
+/**
+ * Selects the ID of an entity according to its schema
+ *
+ * @param schema The schema of the entity
+ * @param entity The entity
+ * @returns The ID, or undefined if a key property is missing
+ */
+export function selectEntityId<T>(
+  schema: EntitySchema<T>,
+  entity: T
+): EntityId | undefined {
+  const idKey = schema.idKey || 'id';
+
+  if (typeof idKey === 'function') {
+    return idKey(entity);
+  }
+
+  const record = entity as Record<string, EntityId | undefined>;
+  if (typeof idKey === 'string') {
+    return record[idKey];
+  }
+
+  const parts = idKey.map((key) => record[key]);
+  return parts.every((part) => part !== undefined)
+    ? serializeEntityKey(parts as EntityId[])
+    : undefined;
+}
+
+/**
+ * Resolves an entity identifier into the ID the entity is stored under
+ *
+ * @param schema The schema of the entity
+ * @param identifier The ID, composite key parts or key-holding object
+ * @returns The stored ID, or undefined if it cannot be derived
+ */
+export function resolveEntityId<T>(
+  schema: EntitySchema<T>,
+  identifier: EntityIdentifier
+): EntityId | undefined {
+  if (typeof identifier === 'string' || typeof identifier === 'number') {
+    return identifier;
+  }
+  if (Array.isArray(identifier)) {
+    return serializeEntityKey(identifier);
+  }
+  return selectEntityId(schema, identifier as T);
+}
+
 /**
  * Type for a normalized entity where references are replaced with IDs
  */
@@ -103,9 +733,104 @@ export type NormalizedEntity<T> =
  */
 export interface NormalizationOptions {
   /**
-   * Whether to merge the normalized data with existing data
+   * How normalized entities are merged with entities already seen in the
+   * same payload or stored in the state. Overrides the strategy of the schema
+   */
+  merge?: MergeStrategy;
+}
+
+/**
+ * How `denormalize` resolves a reference to an entity that is already being
+ * denormalized higher up in the same branch (a back-reference)
+ *
+ * - `stub`: the back-reference is replaced by the stored normalized entity,
+ *   whose relationships stay as IDs
+ * - `shared`: every entity is denormalized once per call and repeated
+ *   references share the same object, so cycles become circular objects
+ * - `id`: the back-reference is left as the raw ID
+ */
+export type CyclePolicy = 'stub' | 'shared' | 'id';
+
+/**
+ * Options for the denormalization process
+ */
+export interface DenormalizationOptions {
+  /**
+   * How back-references are resolved (defaults to 'stub')
    */
-  merge?: boolean;
+  cycles?: CyclePolicy;
+
+  /**
+   * Maximum number of relationship levels to expand. Relationships below
+   * this depth are left as IDs (defaults to no limit)
+   */
+  maxDepth?: number;
+
+  /**
+   * Relationships to expand (defaults to all relationships). Relationships
+   * that are left out stay as IDs
+   */
+  include?: Projection;
+
+  /**
+   * Cache reusing the denormalized entities of earlier calls whose entity
+   * and related entities have not changed. Ignored for the 'shared' cycle
+   * policy
+   */
+  cache?: DenormalizationCache;
+}
+
+/**
+ * Relationships to expand when denormalizing, keyed by relationship key.
+ * `true` expands the relationship and leaves the relationships of the
+ * related entity as IDs, a nested projection chooses which of them are
+ * expanded as well
+ */
+export interface Projection {
+  [key: string]: true | Projection | undefined;
+}
+
+/**
+ * An entity read while denormalizing another entity
+ */
+export interface DenormalizationDependency {
+  type: string;
+  id: EntityId;
+
+  /**
+   * The stored entity at the time it was read, undefined if it was missing
+   */
+  entity: unknown;
+}
+
+/**
+ * A denormalized entity kept by a `DenormalizationCache`
+ */
+export interface CachedDenormalization {
+  /**
+   * The denormalized entity
+   */
+  result: unknown;
+
+  /**
+   * The related entities the result was built from
+   */
+  dependencies: DenormalizationDependency[];
+
+  /**
+   * Keys of the related entities that were back-references to entities
+   * being denormalized higher up, and so were not expanded
+   */
+  cuts: Set<string>;
+}
+
+/**
+ * Denormalized entities keyed by the identity of the stored entity, so
+ * entries of replaced entities are garbage collected
+ */
+export interface DenormalizationCache {
+  get(entity: object, variant: string): CachedDenormalization | undefined;
+  set(entity: object, variant: string, entry: CachedDenormalization): void;
 }
 
 /**
@@ -0,0 +1,104 @@
+import { EntityMap, EntityReference, EntitySchemaMap } from './schema';
+
+/**
+ * When an entity was fetched, and whether it has to be fetched again
+ */
+export interface EntityFreshness {
+  /**
+   * Time of the last fetch in milliseconds since the epoch, null if the
+   * entity was invalidated before it was ever fetched
+   */
+  fetchedAt: number | null;
+
+  /**
+   * Set by `invalidate`, cleared by the next fetch
+   */
+  invalidated: boolean;
+}
+
+/**
+ * Checks whether an entity has to be fetched again: it was invalidated, or
+ * the TTL of its type has passed since it was fetched. Entities without a
+ * recorded fetch are stale if their type has a TTL
+ *
+ * @param ttl The TTL of the entity type in milliseconds
+ * @param freshness The fetch metadata of the entity
+ * @param now The current time in milliseconds since the epoch
+ * @returns Whether the entity is stale
+ */
+export function isEntityStale(
+  ttl: number | undefined,
+  freshness: EntityFreshness | undefined,
+  now: number
+): boolean {
+  if (freshness?.invalidated) {
+    return true;
+  }
+  if (ttl === undefined) {
+    return false;
+  }
+  const fetchedAt = freshness?.fetchedAt ?? null;
+  return fetchedAt === null || now - fetchedAt >= ttl;
+}
+
+/**
+ * Finds the stored entities that are stale
+ *
+ * @param entities The normalized entities
+ * @param schemaMap The schema map holding the TTL of each type
+ * @param freshness The fetch metadata keyed by `type:id`
+ * @param now The current time in milliseconds since the epoch
+ * @returns The stale entities
+ */
+export function findStaleEntities(
+  entities: Record<string, EntityMap<unknown>>,
+  schemaMap: EntitySchemaMap,
+  freshness: Record<string, EntityFreshness>,
+  now: number
+): EntityReference[] {
+  return Object.keys(schemaMap).flatMap((entityType) =>
+    Object.keys(entities[entityType] ?? {})
+      .filter((id) =>
+        isEntityStale(
+          schemaMap[entityType].ttl,
+          freshness[`${entityType}:${id}`],
+          now
+        )
+      )
+      .map((id) => ({ type: entityType, id }))
+  );
+}
+
+/**
+ * Finds the time at which the next fresh entity becomes stale
+ *
+ * @param entities The normalized entities
+ * @param schemaMap The schema map holding the TTL of each type
+ * @param freshness The fetch metadata keyed by `type:id`
+ * @param now The current time in milliseconds since the epoch
+ * @returns The time in milliseconds since the epoch, undefined if no entity
+ * expires
+ */
+export function findNextExpiry(
+  entities: Record<string, EntityMap<unknown>>,
+  schemaMap: EntitySchemaMap,
+  freshness: Record<string, EntityFreshness>,
+  now: number
+): number | undefined {
+  let next: number | undefined;
+
+  for (const [entityType, schema] of Object.entries(schemaMap)) {
+    if (schema.ttl === undefined) {
+      continue;
+    }
+    for (const id of Object.keys(entities[entityType] ?? {})) {
+      const fetched = freshness[`${entityType}:${id}`];
+      const expiresAt = (fetched?.fetchedAt ?? -Infinity) + schema.ttl;
+      if (!fetched?.invalidated && expiresAt > now) {
+        next = next === undefined ? expiresAt : Math.min(next, expiresAt);
+      }
+    }
+  }
+
+  return next;
+}
@@ -0,0 +1,99 @@
+import { TestBed } from '@angular/core/testing';
+import { signalStore } from '@ngrx/signals';
+import { createEntitySchema } from './schema';
+import { withNormalization } from './with-normalization';
+import { withNormalizationHistory } from './with-normalization-history';
+
+interface User {
+  id: number;
+  name: string;
+  age?: number;
+}
+
+const UsersStore = signalStore(
+  withNormalization({ users: createEntitySchema<User>('id') }),
+  withNormalizationHistory()
+);
+
+describe('withNormalizationHistory', () => {
+  let store: InstanceType<typeof UsersStore>;
+
+  const userName = () => store.getEntityById('users', 1)?.name;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [UsersStore] });
+    store = TestBed.inject(UsersStore);
+
+    store.addNormalizedData({ id: 1, name: 'Ada' }, 'users');
+    store.clearHistory();
+  });
+
+  it('should undo and redo an update', () => {
+    store.updateEntity('users', 1, { name: 'Grace' });
+
+    expect(store.undo()).toBeTrue();
+    expect(userName()).toBe('Ada');
+    expect(store.redo()).toBeTrue();
+    expect(userName()).toBe('Grace');
+  });
+
+  describe('when an optimistic change is rolled back', () => {
+    it('should not bring the rejected change back on undo', async () => {
+      store.updateEntity('users', 1, { name: 'Grace' });
+
+      const result = await store.optimisticUpdate(
+        'users',
+        1,
+        { name: 'Rejected' },
+        () => Promise.reject(new Error('Request failed'))
+      );
+
+      expect(result.success).toBeFalse();
+      expect(userName()).toBe('Grace');
+      expect(store.undo()).toBeTrue();
+      expect(userName()).toBe('Ada');
+      expect(store.canUndo()).toBeFalse();
+      expect(store.redo()).toBeTrue();
+      expect(userName()).toBe('Grace');
+      expect(store.canRedo()).toBeFalse();
+    });
+
+    it('should keep later edits of the entity undoable', async () => {
+      let reject: (error: Error) => void = () => undefined;
+      const request = store.optimisticUpdate(
+        'users',
+        1,
+        { name: 'Rejected' },
+        new Promise((_, fail) => (reject = fail))
+      );
+      store.updateEntity('users', 1, { age: 36 });
+      reject(new Error('Request failed'));
+      await request;
+
+      expect(store.getEntityById('users', 1)).toEqual({
+        id: 1,
+        name: 'Ada',
+        age: 36,
+      });
+      expect(store.undo()).toBeTrue();
+      expect(store.getEntityById('users', 1)).toEqual({ id: 1, name: 'Ada' });
+      expect(store.canUndo()).toBeFalse();
+    });
+
+    it('should not bring the rejected change back on redo', async () => {
+      let reject: (error: Error) => void = () => undefined;
+      const request = store.optimisticUpdate(
+        'users',
+        1,
+        { name: 'Rejected' },
+        new Promise((_, fail) => (reject = fail))
+      );
+      store.undo();
+      reject(new Error('Request failed'));
+      await request;
+
+      expect(userName()).toBe('Ada');
+      expect(store.canRedo()).toBeFalse();
+    });
+  });
+});
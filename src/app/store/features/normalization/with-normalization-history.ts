@@ -0,0 +1,283 @@
+import { computed } from '@angular/core';
+import {
+  patchState,
+  signalStoreFeature,
+  type,
+  watchState,
+  withComputed,
+  withMethods,
+  withState,
+} from '@ngrx/signals';
+import { createEntitiesDraft } from './entities-draft';
+import { EntityChangeCauses } from './entity-change-causes';
+import { diffEntities, EntityPatch, revertEntity } from './entity-patches';
+import { EntityMap } from './schema';
+import { NormalizationState } from './with-normalization';
+
+/**
+ * Undoable steps, each holding the entity patches of one change
+ */
+export interface NormalizationHistoryState {
+  past: EntityPatch[][];
+  future: EntityPatch[][];
+}
+
+/**
+ * Options for the normalization history feature
+ */
+export interface NormalizationHistoryOptions {
+  /**
+   * Maximum number of undoable steps, older steps are dropped. Defaults to 100
+   */
+  maxSize?: number;
+}
+
+/**
+ * Combines patches into one per entity, keeping the first `before` and the
+ * last `after`. Entities that ended up unchanged are dropped
+ */
+function combinePatches(patches: EntityPatch[]): EntityPatch[] {
+  const combined = new Map<string, EntityPatch>();
+
+  for (const patch of patches) {
+    const key = `${patch.type}:${patch.id}`;
+    const existing = combined.get(key);
+    combined.set(key, existing ? { ...existing, after: patch.after } : patch);
+  }
+
+  return [...combined.values()].filter((patch) => patch.before !== patch.after);
+}
+
+/**
+ * Applies one side of the patches to the entity collections
+ */
+function applyPatches(
+  entities: Record<string, EntityMap<unknown>>,
+  patches: EntityPatch[],
+  side: 'before' | 'after'
+): Record<string, EntityMap<unknown>> {
+  const draft = createEntitiesDraft(entities);
+
+  patches.forEach((patch) => {
+    const entity = patch[side];
+    if (entity === undefined) {
+      draft.remove(patch.type, patch.id);
+    } else {
+      draft.set(patch.type, patch.id, entity);
+    }
+  });
+
+  return draft.finish();
+}
+
+/**
+ * Creates a signal store feature recording undoable steps for the changes
+ * made to the normalized entities. Each state change is one step, so a
+ * `transaction` is undone as a whole. Restored entities are not recorded,
+ * and an optimistic change that is rolled back leaves no step behind. Must
+ * be added after `withNormalization`
+ *
+ * @param options Options such as the maximum number of steps
+ * @returns A signal store feature adding undo and redo
+ */
+export const withNormalizationHistory = function (
+  options: NormalizationHistoryOptions = {}
+) {
+  const maxSize = options.maxSize ?? 100;
+
+  return signalStoreFeature(
+    {
+      state: type<NormalizationState>(),
+      props: type<{ _changeCauses: EntityChangeCauses }>(),
+    },
+
+    // Add state for the recorded steps
+    withState<{ history: NormalizationHistoryState }>({
+      history: { past: [], future: [] },
+    }),
+
+    // Add computed properties
+    withComputed(({ history }) => ({
+      canUndo: computed(() => history().past.length > 0),
+      canRedo: computed(() => history().future.length > 0),
+    })),
+
+    // Add methods
+    withMethods((store) => {
+      // Entities at the last recorded change
+      let recorded = store.entities();
+
+      // Set while undo or redo change the entities themselves
+      let replaying = false;
+
+      // Patches collected by groupHistory, recorded as one step at its end,
+      // and the optimistic changes among them
+      let group: { patches: EntityPatch[]; optimistic: number[] } | null =
+        null;
+
+      // The optimistic changes applied by each recorded step
+      const optimisticSteps = new WeakMap<EntityPatch[], number[]>();
+
+      // Record a step, dropping the oldest one beyond the maximum size
+      function record(patches: EntityPatch[], optimistic: number[]): void {
+        const step = combinePatches(patches);
+        if (step.length === 0) {
+          return;
+        }
+        if (optimistic.length > 0) {
+          optimisticSteps.set(step, optimistic);
+        }
+
+        const past = [...store.history().past, step].slice(-maxSize);
+        patchState(store, { history: { past, future: [] } });
+      }
+
+      // Take a rolled back optimistic change out of the recorded steps. The
+      // step that applied it and every later step hold the rejected values,
+      // so their entities get the change reverted, and steps left without
+      // changes are dropped. Neither undo nor redo brings the change back
+      function cancelOptimistic(id: number, patches: EntityPatch[]): void {
+        const reverts = new Map(
+          patches.map((patch) => [`${patch.type}:${patch.id}`, patch])
+        );
+        const revertStep = (step: EntityPatch[]) => {
+          const reverted = combinePatches(
+            step.map((patch) => {
+              const revert = reverts.get(`${patch.type}:${patch.id}`);
+              return revert
+                ? {
+                    ...patch,
+                    before: revertEntity(patch.before, revert),
+                    after: revertEntity(patch.after, revert),
+                  }
+                : patch;
+            })
+          );
+          const optimistic = (optimisticSteps.get(step) ?? []).filter(
+            (other) => other !== id
+          );
+          if (optimistic.length > 0) {
+            optimisticSteps.set(reverted, optimistic);
+          }
+          return reverted.length > 0 ? [reverted] : [];
+        };
+        const revertSteps = (steps: EntityPatch[][], from: number, to: number) =>
+          steps.flatMap((step, index) =>
+            index >= from && index < to ? revertStep(step) : [step]
+          );
+
+        // The steps after the optimistic one are above it in the past and
+        // below it in the future. If it was dropped already, all of them are
+        const { past, future } = store.history();
+        const applies = (step: EntityPatch[]) =>
+          optimisticSteps.get(step)?.includes(id) ?? false;
+        const inFuture = future.findIndex(applies);
+        const history =
+          inFuture >= 0
+            ? { past, future: revertSteps(future, 0, inFuture + 1) }
+            : {
+                past: revertSteps(
+                  past,
+                  Math.max(past.findIndex(applies), 0),
+                  past.length
+                ),
+                future: revertSteps(future, 0, future.length),
+              };
+        patchState(store, { history });
+      }
+
+      // Record every change of the entities as it is stored
+      watchState(store, ({ entities }) => {
+        if (entities === recorded) {
+          return;
+        }
+
+        const patches = diffEntities(recorded, entities);
+        recorded = entities;
+        if (replaying) {
+          return;
+        }
+
+        // Restored entities are not an edit, and a rollback takes back the
+        // step of its optimistic change
+        const cause = store._changeCauses.current();
+        if (cause?.kind === 'restore') {
+          return;
+        }
+        if (cause?.kind === 'rollback') {
+          cancelOptimistic(cause.id, cause.patches);
+          return;
+        }
+
+        const optimistic = cause?.kind === 'optimistic' ? [cause.id] : [];
+        if (group) {
+          group.patches.push(...patches);
+          group.optimistic.push(...optimistic);
+        } else {
+          record(patches, optimistic);
+        }
+      });
+
+      // Move a step from one stack to the other and apply it
+      function replay(direction: 'undo' | 'redo'): boolean {
+        const { past, future } = store.history();
+        const source = direction === 'undo' ? past : future;
+        const step = source[source.length - 1];
+        if (!step) {
+          return false;
+        }
+
+        const entities =
+          direction === 'undo'
+            ? applyPatches(store.entities(), [...step].reverse(), 'before')
+            : applyPatches(store.entities(), step, 'after');
+        const history =
+          direction === 'undo'
+            ? { past: past.slice(0, -1), future: [...future, step] }
+            : { past: [...past, step], future: future.slice(0, -1) };
+
+        replaying = true;
+        try {
+          patchState(store, { entities, history });
+        } finally {
+          replaying = false;
+        }
+        return true;
+      }
+
+      return {
+        // Revert the last step, returns false if there is nothing to undo
+        undo(): boolean {
+          return replay('undo');
+        },
+
+        // Reapply the last undone step, returns false if there is nothing to redo
+        redo(): boolean {
+          return replay('redo');
+        },
+
+        // Record all changes made by a function as a single step
+        groupHistory<R>(fn: () => R): R {
+          // Nested groups are part of the outer one
+          if (group) {
+            return fn();
+          }
+
+          group = { patches: [], optimistic: [] };
+          try {
+            return fn();
+          } finally {
+            const { patches, optimistic } = group;
+            group = null;
+            record(patches, optimistic);
+          }
+        },
+
+        // Forget all recorded steps
+        clearHistory(): void {
+          patchState(store, { history: { past: [], future: [] } });
+        },
+      };
+    })
+  );
+};
@@ -0,0 +1,62 @@
+import { TestBed } from '@angular/core/testing';
+import { signalStore } from '@ngrx/signals';
+import {
+  createMemoryStorage,
+  PersistenceStorage,
+} from './persistence-storage';
+import { createEntitySchema } from './schema';
+import { withNormalization } from './with-normalization';
+import { withNormalizationHistory } from './with-normalization-history';
+import { withNormalizationPersistence } from './with-normalization-persistence';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+function createStore(storage: PersistenceStorage) {
+  const UsersStore = signalStore(
+    withNormalization({ users: createEntitySchema<User>('id') }),
+    withNormalizationHistory(),
+    withNormalizationPersistence({ key: 'users', storage })
+  );
+
+  TestBed.configureTestingModule({ providers: [UsersStore] });
+  return TestBed.inject(UsersStore);
+}
+
+describe('withNormalizationPersistence', () => {
+  it('should not record restored entities in the history', async () => {
+    const storage = createMemoryStorage();
+    await storage.setItem('users', {
+      version: 1,
+      entities: { users: { 1: { id: 1, name: 'Ada' } } },
+      lists: {},
+      freshness: {},
+    });
+
+    const store = createStore(storage);
+    await store.rehydrate();
+
+    expect(store.getEntityById('users', 1)?.name).toBe('Ada');
+    expect(store.canUndo()).toBeFalse();
+  });
+
+  it('should keep the history of edits made while reading', async () => {
+    let read: (value: unknown) => void = () => undefined;
+    const storage: PersistenceStorage = {
+      ...createMemoryStorage(),
+      getItem: () => new Promise((resolve) => (read = resolve)),
+    };
+
+    const store = createStore(storage);
+    store.addNormalizedData({ id: 1, name: 'Ada' }, 'users');
+    store.updateEntity('users', 1, { name: 'Grace' });
+    read(undefined);
+    await Promise.resolve();
+
+    expect(store.persistence().rehydrated).toBeTrue();
+    expect(store.undo()).toBeTrue();
+    expect(store.getEntityById('users', 1)?.name).toBe('Ada');
+  });
+});
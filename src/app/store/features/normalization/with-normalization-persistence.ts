@@ -0,0 +1,355 @@
+import {
+  patchState,
+  signalStoreFeature,
+  type,
+  watchState,
+  withHooks,
+  withMethods,
+  withState,
+} from '@ngrx/signals';
+import { EntityChangeCauses } from './entity-change-causes';
+import { PersistenceStorage } from './persistence-storage';
+import { EntityMap } from './schema';
+import { EntityFreshness } from './staleness';
+import { NormalizationState, ResultList } from './with-normalization';
+
+/**
+ * The part of the normalization state written to the storage
+ */
+export interface PersistedNormalizationState {
+  /**
+   * Version of the persisted shape, see `NormalizationPersistenceOptions`
+   */
+  version: number;
+
+  entities: Record<string, EntityMap<unknown>>;
+  lists: Record<string, ResultList>;
+  freshness: Record<string, EntityFreshness>;
+}
+
+/**
+ * Converts a persisted state into the shape of the next version
+ */
+export type PersistenceMigration = (
+  state: PersistedNormalizationState
+) => PersistedNormalizationState;
+
+/**
+ * Options for the normalization persistence feature
+ */
+export interface NormalizationPersistenceOptions {
+  /**
+   * Key the state is stored under
+   */
+  key: string;
+
+  /**
+   * Where the state is stored, see `createWebStorage`,
+   * `createIndexedDbStorage` and `createMemoryStorage`
+   */
+  storage: PersistenceStorage;
+
+  /**
+   * Entity types whose collections are persisted. Defaults to all of them
+   */
+  collections?: string[];
+
+  /**
+   * Version of the persisted shape. Increase it whenever the schema map
+   * changes in a way that makes persisted entities invalid. Defaults to 1
+   */
+  version?: number;
+
+  /**
+   * Migrations keyed by the version they migrate to. A persisted state of
+   * an older version is migrated step by step, and discarded if a step is
+   * missing
+   */
+  migrations?: Record<number, PersistenceMigration>;
+
+  /**
+   * Time in milliseconds changes are collected before they are written.
+   * Defaults to 500
+   */
+  debounce?: number;
+}
+
+/**
+ * State of the persistence of the normalized state
+ */
+export interface NormalizationPersistenceState {
+  /**
+   * Whether the persisted state was read. Changes are only written after it
+   */
+  rehydrated: boolean;
+
+  /**
+   * Error of the last failed read or write
+   */
+  error: string | null;
+
+  /**
+   * Time of the last successful write in milliseconds since the epoch
+   */
+  savedAt: number | null;
+}
+
+/**
+ * Brings a persisted state to the current version, or returns null if it
+ * cannot be used
+ */
+function migratePersistedState(
+  value: unknown,
+  version: number,
+  migrations: Record<number, PersistenceMigration>
+): PersistedNormalizationState | null {
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    typeof (value as PersistedNormalizationState).version !== 'number'
+  ) {
+    return null;
+  }
+
+  // A state written by a newer version is left alone
+  let state = value as PersistedNormalizationState;
+  if (state.version > version) {
+    return null;
+  }
+
+  while (state.version < version) {
+    const migrate = migrations[state.version + 1];
+    if (!migrate) {
+      return null;
+    }
+    state = { ...migrate(state), version: state.version + 1 };
+  }
+
+  return typeof state.entities === 'object' && state.entities !== null
+    ? state
+    : null;
+}
+
+/**
+ * Keeps the entries of a record whose `type:id` key has one of the types
+ */
+function pickByType<V>(
+  record: Record<string, V>,
+  types: string[]
+): Record<string, V> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) =>
+      types.includes(key.slice(0, key.indexOf(':')))
+    )
+  );
+}
+
+/**
+ * Creates a signal store feature saving the normalized entities, result
+ * lists and fetch times to a storage, and restoring them when the store is
+ * created. Must be added after `withNormalization`. Restoring the state is
+ * not recorded by `withNormalizationHistory`
+ *
+ * @param options The storage, the persisted collections and the migrations
+ * @returns A signal store feature adding persistence
+ */
+export const withNormalizationPersistence = function (
+  options: NormalizationPersistenceOptions
+) {
+  const version = options.version ?? 1;
+  const debounce = options.debounce ?? 500;
+
+  return signalStoreFeature(
+    {
+      state: type<NormalizationState>(),
+      props: type<{ _changeCauses: EntityChangeCauses }>(),
+    },
+
+    // Add state for the persistence itself
+    withState<{ persistence: NormalizationPersistenceState }>({
+      persistence: { rehydrated: false, error: null, savedAt: null },
+    }),
+
+    // Add methods
+    withMethods((store) => {
+      // Write scheduled after the last change
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      // The persisted parts of the state as of the last write
+      let saved: Pick<
+        NormalizationState,
+        'entities' | 'lists' | 'freshness'
+      > | null = null;
+
+      // The entity types to persist
+      const collections = () =>
+        options.collections ?? Object.keys(store.entities());
+
+      // Record the outcome of a read or write
+      function updatePersistence(
+        changes: Partial<NormalizationPersistenceState>
+      ): void {
+        patchState(store, {
+          persistence: { ...store.persistence(), ...changes },
+        });
+      }
+
+      // Describe an error of the storage
+      const describe = (error: unknown) =>
+        error instanceof Error ? error.message : String(error);
+
+      // Select the persisted parts of the state
+      function snapshot(): PersistedNormalizationState {
+        const types = collections();
+        const entities = store.entities();
+
+        return {
+          version,
+          entities: Object.fromEntries(
+            types.map((entityType) => [entityType, entities[entityType] ?? {}])
+          ),
+          lists: Object.fromEntries(
+            Object.entries(store.lists()).filter(([, list]) =>
+              types.includes(list.type)
+            )
+          ),
+          freshness: pickByType(store.freshness(), types),
+        };
+      }
+
+      // Select the parts of the state that are persisted
+      const persistedParts = () => ({
+        entities: store.entities(),
+        lists: store.lists(),
+        freshness: store.freshness(),
+      });
+
+      // Check whether the persisted parts changed since the last write
+      function hasChanges(): boolean {
+        if (!saved) {
+          return true;
+        }
+        const { entities, lists, freshness } = saved;
+        return (
+          collections().some(
+            (entityType) =>
+              store.entities()[entityType] !== entities[entityType]
+          ) ||
+          store.lists() !== lists ||
+          store.freshness() !== freshness
+        );
+      }
+
+      // Write the persisted parts of the state right away
+      async function flushPersistence(): Promise<void> {
+        clearTimeout(timer);
+        timer = undefined;
+        if (!store.persistence().rehydrated || !hasChanges()) {
+          return;
+        }
+        saved = persistedParts();
+
+        try {
+          await options.storage.setItem(options.key, snapshot());
+          updatePersistence({ error: null, savedAt: Date.now() });
+        } catch (error) {
+          // Write again with the next change
+          saved = null;
+          updatePersistence({ error: describe(error) });
+        }
+      }
+
+      // Write the persisted parts of the state once changes settle
+      function schedulePersistence(): void {
+        clearTimeout(timer);
+        timer = setTimeout(() => void flushPersistence(), debounce);
+      }
+
+      // Read the persisted state and merge it into the store. Entities that
+      // were stored in the meantime take precedence
+      async function rehydrate(): Promise<void> {
+        try {
+          const persisted = migratePersistedState(
+            await options.storage.getItem(options.key),
+            version,
+            options.migrations ?? {}
+          );
+
+          if (persisted) {
+            const types = collections();
+            const entities = { ...store.entities() };
+            types
+              .filter((entityType) => persisted.entities[entityType])
+              .forEach((entityType) => {
+                entities[entityType] = {
+                  ...persisted.entities[entityType],
+                  ...entities[entityType],
+                };
+              });
+            const lists = Object.fromEntries(
+              Object.entries(persisted.lists ?? {}).filter(([, list]) =>
+                types.includes(list.type)
+              )
+            );
+
+            // Restoring is not an edit, see withNormalizationHistory
+            store._changeCauses.run({ kind: 'restore' }, () =>
+              patchState(store, {
+                entities,
+                lists: { ...lists, ...store.lists() },
+                freshness: {
+                  ...pickByType(persisted.freshness ?? {}, types),
+                  ...store.freshness(),
+                },
+              })
+            );
+          }
+          finishRehydration(null);
+        } catch (error) {
+          finishRehydration(describe(error));
+        }
+      }
+
+      // Start writing changes. Nothing is written until the store changes,
+      // so a persisted state that was not used is kept
+      function finishRehydration(error: string | null): void {
+        saved = persistedParts();
+        updatePersistence({ rehydrated: true, error });
+      }
+
+      // Remove the persisted state, the state of the store is kept
+      async function clearPersisted(): Promise<void> {
+        clearTimeout(timer);
+        timer = undefined;
+        saved = null;
+        try {
+          await options.storage.removeItem(options.key);
+        } catch (error) {
+          updatePersistence({ error: describe(error) });
+        }
+      }
+
+      return {
+        rehydrate,
+        flushPersistence,
+        clearPersisted,
+        _schedulePersistence: schedulePersistence,
+      };
+    }),
+
+    // Read the persisted state on creation and write changes after it
+    withHooks((store) => ({
+      onInit() {
+        watchState(store, ({ persistence }) => {
+          if (persistence.rehydrated) {
+            store._schedulePersistence();
+          }
+        });
+        void store.rehydrate();
+      },
+      onDestroy() {
+        void store.flushPersistence();
+      },
+    }))
+  );
+};
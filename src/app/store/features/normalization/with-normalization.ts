@@ -1,18 +1,79 @@
-import { computed, Signal } from '@angular/core';
+import { computed, inject, Injector, signal, Signal } from '@angular/core';
 import {
   patchState,
   signalStoreFeature,
+  watchState,
   withComputed,
+  withHooks,
   withMethods,
+  withProps,
   withState,
 } from '@ngrx/signals';
+import { rxMethod, RxMethod } from '@ngrx/signals/rxjs-interop';
+import { tapResponse } from '@ngrx/operators';
 import {
+  concatMap,
+  defer,
+  exhaustMap,
+  from,
+  isObservable,
+  lastValueFrom,
+  mergeMap,
+  Observable,
+  switchMap,
+} from 'rxjs';
+import {
+  DenormalizationOptions,
+  DenormalizedResult,
   EntityId,
+  EntityIdentifier,
   EntityMap,
+  EntityOf,
+  EntityProjection,
+  EntityReference,
   EntitySchemaMap,
+  EntityTypeKey,
+  MergeStrategy,
+  NormalizableEntity,
+  NormalizationOptions,
   OperationResult,
+  RelationshipKey,
+  resolveEntityId,
+  selectEntityId,
 } from './schema';
-import { denormalize, normalize } from './normalizer';
+import {
+  createDenormalizationCache,
+  denormalize,
+  normalize,
+} from './normalizer';
+import { mergeEntity, resolveMergeStrategy } from './merge';
+import { createEntitiesDraft, EntitiesDraft } from './entities-draft';
+import {
+  collectInverseRelationships,
+  syncInverseRelationships,
+} from './inverse';
+import { collectIncomingRelationships } from './references';
+import { removeWithPolicies } from './delete-policies';
+import { editRelation, RelationEdit } from './relations';
+import { assertValidSchemaMap } from './schema-validation';
+import {
+  checkEntityIntegrity,
+  describeIntegrityIssues,
+  IntegrityCheckMode,
+  IntegrityOptions,
+  IntegrityReport,
+  validateIntegrity,
+} from './integrity';
+import { diffEntities, EntityPatch, revertPatches } from './entity-patches';
+import { createEntityChangeCauses } from './entity-change-causes';
+import { findGarbage, RetentionPolicy } from './garbage-collection';
+import {
+  EntityFreshness,
+  findNextExpiry,
+  findStaleEntities,
+  isEntityStale,
+} from './staleness';
+import { applyQuery, collectQueryTypes, EntityQuery } from './query';
 
 /**
  * State interface for the normalization feature
@@ -24,38 +85,427 @@ export interface NormalizationState {
   entities: Record<string, EntityMap<unknown>>;
 
   /**
-   * Loading state for each entity type
+   * Request state of each entity type, and of single entities loaded with
+   * the `id` option of `loadNormalized` keyed by `type:id`
+   */
+  requests: Record<string, RequestState>;
+
+  /**
+   * Number of unconfirmed optimistic changes per entity, keyed by `type:id`
+   */
+  pending: Record<string, number>;
+
+  /**
+   * Named result lists, such as a feed or search results
+   */
+  lists: Record<string, ResultList>;
+
+  /**
+   * When entities were fetched and whether they were invalidated, keyed by
+   * `type:id`
+   */
+  freshness: Record<string, EntityFreshness>;
+}
+
+/**
+ * IDs of the entities returned by a request in the order of the response
+ */
+export interface ResultList {
+  /**
+   * Entity type of the IDs
+   */
+  type: string;
+
+  ids: EntityId[];
+}
+
+/**
+ * How the IDs of a payload are written to a named result list
+ *
+ * - `replace`: the list holds the IDs of the payload only
+ * - `append`: the IDs are added at the end, e.g. for the next page of a feed
+ * - `prepend`: the IDs are added at the start, e.g. for newer feed entries
+ *
+ * IDs that are already in the list keep their position
+ */
+export type ResultListMode = 'replace' | 'append' | 'prepend';
+
+/**
+ * How `addNormalizedData` writes the entities of the added entity type.
+ * Related entities of other types are always upserted
+ *
+ * - `upsert`: new entities are added, existing ones are merged with the
+ *   merge strategy
+ * - `add`: fails if any of the entities already exists
+ * - `replace`: new entities are added, existing ones are replaced as a whole
+ * - `setAll`: like `replace`, and entities of the type that are not in the
+ *   payload are removed, applying their delete policies
+ */
+export type WriteMode = 'upsert' | 'add' | 'replace' | 'setAll';
+
+/**
+ * Options for adding data with `addNormalizedData`
+ */
+export interface AddOptions extends NormalizationOptions {
+  /**
+   * How the entities of the added type are written. Defaults to `upsert`
+   */
+  mode?: WriteMode;
+
+  /**
+   * Name of the result list storing the IDs of the payload in order
+   */
+  list?: string;
+
+  /**
+   * How the IDs are written to the list. Defaults to `replace`
+   */
+  listMode?: ResultListMode;
+}
+
+/**
+ * Writes the IDs of a payload to a result list
+ */
+function writeResultList(
+  name: string,
+  previous: ResultList | undefined,
+  type: string,
+  ids: EntityId[],
+  mode: ResultListMode
+): ResultList {
+  if (previous && mode !== 'replace' && previous.type !== type) {
+    throw new Error(
+      `Result list ${name} holds ${previous.type} entities, not ${type}`
+    );
+  }
+
+  const kept = mode === 'replace' || !previous ? [] : previous.ids;
+  const added = [...new Set(ids)].filter((id) => !kept.includes(id));
+  return {
+    type,
+    ids: mode === 'prepend' ? [...added, ...kept] : [...kept, ...added],
+  };
+}
+
+/**
+ * Status of the requests loading an entity type or entity
+ *
+ * - `idle`: nothing was loaded yet
+ * - `pending`: a load is running
+ * - `success`: the last load succeeded
+ * - `error`: the last load failed
+ */
+export type RequestStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/**
+ * Request state of an entity type or entity
+ */
+export interface RequestState {
+  status: RequestStatus;
+
+  /**
+   * Error of the last failed load, cleared by the next successful one
+   */
+  error: string | null;
+
+  /**
+   * Time of the last successful load in milliseconds since the epoch
+   */
+  loadedAt: number | null;
+}
+
+/**
+ * Request state of an entity type or entity that was never loaded
+ */
+const idleRequest: RequestState = {
+  status: 'idle',
+  error: null,
+  loadedAt: null,
+};
+
+/**
+ * The server request confirming an optimistic change. A function is called
+ * after the change has been applied
+ */
+export type OptimisticRequest<R> =
+  | Promise<R>
+  | Observable<R>
+  | (() => Promise<R> | Observable<R>);
+
+/**
+ * How `loadNormalized` handles a load started while another load of the same
+ * entity type and strategy is running
+ *
+ * - `switch`: the running load is cancelled
+ * - `concat`: the new load waits until the running load has finished
+ * - `exhaust`: the new load is ignored
+ * - `merge`: both loads run in parallel
+ */
+export type LoadStrategy = 'switch' | 'concat' | 'exhaust' | 'merge';
+
+/**
+ * The data loaded by `loadNormalized`: an Observable, or a function returning
+ * a Promise or an Observable that is called when the load starts
+ */
+export type NormalizedSource =
+  | Observable<unknown>
+  | (() => Promise<unknown> | Observable<unknown>);
+
+/**
+ * Options for loading data with `loadNormalized`
+ */
+export interface LoadOptions extends AddOptions {
+  /**
+   * How concurrent loads are handled. Defaults to `switch`
+   */
+  strategy?: LoadStrategy;
+
+  /**
+   * The entity being loaded. Its request state is tracked in addition to
+   * the request state of the entity type
+   */
+  id?: EntityIdentifier;
+}
+
+/**
+ * A load waiting to be handled by the loader of its entity type
+ */
+interface LoadRequest {
+  source: NormalizedSource;
+  options: AddOptions;
+  keys: string[];
+}
+
+/**
+ * Maps each load to its response according to the load strategy
+ */
+function flattenLoads<T>(
+  strategy: LoadStrategy,
+  project: (value: T) => Observable<unknown>
+) {
+  switch (strategy) {
+    case 'concat':
+      return concatMap(project);
+    case 'exhaust':
+      return exhaustMap(project);
+    case 'merge':
+      return mergeMap(project);
+    default:
+      return switchMap(project);
+  }
+}
+
+/**
+ * Configuration of the normalization feature
+ */
+export interface NormalizationConfig {
+  /**
+   * How changes made by `addNormalizedData` and `updateEntity` are checked
+   * for broken references. Defaults to `off`
+   */
+  integrityChecks?: IntegrityCheckMode;
+
+  /**
+   * Options for the `integrityReport` signal
    */
-  loading: Record<string, boolean>;
+  integrity?: IntegrityOptions;
+
+  /**
+   * Which entities `collectGarbage` removes, and whether it runs after
+   * every change
+   */
+  garbageCollection?: GarbageCollectionConfig;
+}
+
+/**
+ * Configuration of the garbage collection of unreachable entities
+ */
+export interface GarbageCollectionConfig {
+  /**
+   * Retention policy per entity type. Types that are not listed are roots,
+   * which are always kept
+   */
+  retention?: Record<string, RetentionPolicy>;
+
+  /**
+   * Whether unreachable entities are removed with every change. Defaults to
+   * false, leaving it to `collectGarbage`
+   */
+  auto?: boolean;
+}
+
+/**
+ * Computed signals added for each entity type of the schema map
+ */
+export type NormalizationComputed<T extends EntitySchemaMap> = {
+  [K in EntityTypeKey<T> as `${K}List`]: Signal<EntityOf<T, K>[]>;
+} & {
+  [K in EntityTypeKey<T> as `${K}Loading`]: Signal<boolean>;
+} & {
+  [K in EntityTypeKey<T> as `${K}Status`]: Signal<RequestStatus>;
+} & {
+  [K in EntityTypeKey<T> as `${K}Error`]: Signal<string | null>;
+} & {
+  [K in EntityTypeKey<T> as `${K}LoadedAt`]: Signal<number | null>;
+} & {
+  integrityReport: Signal<IntegrityReport>;
+  hasPendingChanges: Signal<boolean>;
+  staleEntities: Signal<EntityReference[]>;
+};
+
+/**
+ * A change applied by `batch`
+ */
+export type NormalizationOperation<T extends EntitySchemaMap> = {
+  [K in EntityTypeKey<T>]:
+    | {
+        op: 'add';
+        entityType: K;
+        data: unknown;
+        options?: AddOptions;
+      }
+    | {
+        op: 'update';
+        entityType: K;
+        id: EntityIdentifier;
+        changes: Partial<NormalizableEntity<T, K>>;
+      }
+    | { op: 'remove'; entityType: K; id: EntityIdentifier };
+}[EntityTypeKey<T>];
+
+/**
+ * Changes collected by a transaction until they are committed
+ */
+interface PendingTransaction {
+  draft: EntitiesDraft;
+  changed: EntityReference[];
+
+  /**
+   * The result lists, if any of them changed
+   */
+  lists?: Record<string, ResultList>;
+
+  /**
+   * The fetch metadata, if it changed
+   */
+  freshness?: Record<string, EntityFreshness>;
+
+  /**
+   * The request states, if a load settled
+   */
+  requests?: Record<string, RequestState>;
+
+  error?: string;
+}
+
+/**
+ * Compares lists by their elements, so a list of unchanged denormalized
+ * entities keeps its identity
+ */
+function haveSameElements(
+  a: readonly unknown[],
+  b: readonly unknown[]
+): boolean {
+  return a.length === b.length && a.every((element, i) => element === b[i]);
+}
+
+/**
+ * Denormalization options whose projection is typed for an entity type
+ */
+export type ProjectionOptions<P> = Omit<DenormalizationOptions, 'include'> & {
+  include?: P;
+};
+
+/**
+ * Distinguishes the options argument of `selectDenormalized` from an ID or
+ * composite key
+ */
+function isDenormalizationOptions(
+  value: EntityId | readonly EntityId[] | DenormalizationOptions | undefined
+): value is DenormalizationOptions | undefined {
+  return (
+    value === undefined || (typeof value === 'object' && !Array.isArray(value))
+  );
 }
 
 /**
  * Creates a custom signal store feature for normalizing data
  *
  * @param schemas Map of entity schemas
+ * @param config Configuration such as the integrity checks
  * @returns A signal store feature for normalizing data
  */
-export function withNormalization<T extends EntitySchemaMap>(schemas: T) {
+export function withNormalization<T extends EntitySchemaMap>(
+  schemas: T,
+  config: NormalizationConfig = {}
+) {
+  // Fail early with every problem of the schema map
+  assertValidSchemaMap(schemas);
+
   // Get the entity types from the schema map
   const entityTypes = Object.keys(schemas);
 
+  // Inverse relationship pairs kept consistent on every change
+  const inverses = collectInverseRelationships(schemas);
+
+  // Relationships pointing at each entity type, used for delete policies
+  const incoming = collectIncomingRelationships(schemas);
+
+  // Check the changed entities for broken references before they are stored
+  const checkIntegrity = (
+    entities: Record<string, EntityMap<unknown>>,
+    changed: EntityReference[]
+  ) => {
+    const mode = config.integrityChecks ?? 'off';
+    if (mode === 'off') {
+      return;
+    }
+
+    const issues = changed.map(({ type, id }) =>
+      checkEntityIntegrity(entities, schemas, type, id)
+    );
+    const message = describeIntegrityIssues({
+      dangling: issues.flatMap((issue) => issue.dangling),
+      typeMismatches: issues.flatMap((issue) => issue.typeMismatches),
+    });
+    if (!message) {
+      return;
+    }
+
+    if (mode === 'throw') {
+      throw new Error(`Broken references:\n${message}`);
+    }
+    console.error(`Broken references:\n${message}`);
+  };
+
   // Create the initial state
   const initialEntities: Record<string, EntityMap<unknown>> = {};
-  const initialLoading: Record<string, boolean> = {};
+  const initialRequests: Record<string, RequestState> = {};
 
   // Initialize the state for each entity type
   entityTypes.forEach((entityType) => {
     initialEntities[entityType] = {};
-    initialLoading[entityType] = false;
+    initialRequests[entityType] = idleRequest;
   });
 
   return signalStoreFeature(
-    // Add state for entities and loading
+    // Add state for entities and requests
     withState<NormalizationState>({
       entities: initialEntities,
-      loading: initialLoading,
+      requests: initialRequests,
+      pending: {},
+      lists: {},
+      freshness: {},
     }),
 
+    // Add a clock for the staleness of entities, advanced whenever the next
+    // entity expires, and the causes of entity changes for the features
+    // watching them
+    withProps(() => ({
+      _now: signal(Date.now()),
+      _changeCauses: createEntityChangeCauses(),
+    })),
+
     // Add computed properties
     withComputed((state) => {
       // Create a computed property for each entity type
@@ -68,174 +518,1123 @@ export function withNormalization<T extends EntitySchemaMap>(schemas: T) {
           return Object.values(entityMap);
         });
 
-        // Create a selector for the loading state of this type
-        entitySelectors[`${entityType}Loading`] = computed(() => {
-          return state.loading()[entityType] || false;
-        });
+        // Create a selector for the request state of this type
+        const request = computed(
+          () => state.requests()[entityType] ?? idleRequest
+        );
+
+        // Create selectors for the parts of the request state
+        entitySelectors[`${entityType}Loading`] = computed(
+          () => request().status === 'pending'
+        );
+        entitySelectors[`${entityType}Status`] = computed(
+          () => request().status
+        );
+        entitySelectors[`${entityType}Error`] = computed(
+          () => request().error
+        );
+        entitySelectors[`${entityType}LoadedAt`] = computed(
+          () => request().loadedAt
+        );
       });
 
-      return entitySelectors;
+      // Report broken references and orphaned entities of the whole store
+      entitySelectors['integrityReport'] = computed(() =>
+        validateIntegrity(state.entities(), schemas, config.integrity)
+      );
+
+      // Whether any optimistic change still awaits its request
+      entitySelectors['hasPendingChanges'] = computed(
+        () => Object.keys(state.pending()).length > 0
+      );
+
+      // Entities that were invalidated or whose TTL has passed
+      entitySelectors['staleEntities'] = computed(() =>
+        findStaleEntities(
+          state.entities(),
+          schemas,
+          state.freshness(),
+          state._now()
+        )
+      );
+
+      return entitySelectors as NormalizationComputed<T>;
     }),
 
     // Add methods
     withMethods((store) => {
-      // Create a method to get an entity by ID
-      function getEntityById<E>(entityType: string, id: EntityId): E | null {
-        const entities = store.entities();
-        if (!entities[entityType] || !entities[entityType][id]) {
+      // Denormalized entities reused while they and their relations are
+      // unchanged
+      const denormalizationCache = createDenormalizationCache();
+
+      // Resolve an ID, composite key or key-holding object into the stored ID
+      function resolveId(
+        entityType: string,
+        identifier: EntityIdentifier
+      ): EntityId | undefined {
+        const schema = schemas[entityType];
+        return schema ? resolveEntityId(schema, identifier) : undefined;
+      }
+
+      // The transaction in progress, its changes are committed together
+      let activeTransaction: PendingTransaction | null = null;
+
+      // Create a method to get an entity by ID. Inside a transaction it
+      // reads the uncommitted changes of the transaction
+      function getEntityById<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier
+      ): EntityOf<T, K> | null {
+        const id = resolveId(entityType, identifier);
+        if (id === undefined) {
           return null;
         }
-        return entities[entityType][id] as E;
+
+        const entity = activeTransaction
+          ? activeTransaction.draft.get(entityType, id)
+          : store.entities()[entityType]?.[id];
+        return (entity ?? null) as EntityOf<T, K> | null;
       }
 
       // Create a method to get a denormalized entity as a signal
-      function getDenormalizedEntity<E>(
-        entityType: string,
-        id: EntityId
-      ): Signal<E | null> {
+      function getDenormalizedEntity<
+        K extends EntityTypeKey<T>,
+        const P extends EntityProjection<T, K> | undefined = undefined,
+      >(
+        entityType: K,
+        identifier: EntityId | readonly EntityId[],
+        options?: ProjectionOptions<P>
+      ): Signal<DenormalizedResult<T, K, P> | null> {
+        const id = resolveId(entityType, identifier);
+
         return computed(() => {
-          const result = denormalize<E>(
+          if (id === undefined) {
+            return null;
+          }
+
+          const result = denormalize<DenormalizedResult<T, K, P>>(
             id,
             entityType,
             store.entities(),
-            schemas
+            schemas,
+            { cache: denormalizationCache, ...options }
           );
           // Since we're passing a single ID, we know the result will be a single entity or null
-          return result as E | null;
+          return result as DenormalizedResult<T, K, P> | null;
         });
       }
 
       // Create a method to get all denormalized entities of a type as a signal
-      function getDenormalizedEntities<E>(entityType: string): Signal<E[]> {
-        return computed(() => {
-          const entities = store.entities();
-          if (!entities[entityType]) {
-            return [];
+      function getDenormalizedEntities<
+        K extends EntityTypeKey<T>,
+        const P extends EntityProjection<T, K> | undefined = undefined,
+      >(
+        entityType: K,
+        options?: ProjectionOptions<P>
+      ): Signal<DenormalizedResult<T, K, P>[]> {
+        return computed(
+          () => {
+            const entities = store.entities();
+            if (!entities[entityType]) {
+              return [];
+            }
+
+            const ids = Object.keys(entities[entityType]);
+            return denormalize<DenormalizedResult<T, K, P>>(
+              ids as EntityId[],
+              entityType,
+              entities,
+              schemas,
+              { cache: denormalizationCache, ...options }
+            ) as DenormalizedResult<T, K, P>[];
+          },
+          { equal: haveSameElements }
+        );
+      }
+
+      // Drop the fetch times of removed entities
+      function forgetFreshness(
+        pending: PendingTransaction,
+        removed: EntityReference[]
+      ): void {
+        const current = pending.freshness ?? store.freshness();
+        const keys = removed
+          .map(({ type, id }) => `${type}:${id}`)
+          .filter((key) => key in current);
+        if (keys.length === 0) {
+          return;
+        }
+
+        const freshness = { ...current };
+        keys.forEach((key) => delete freshness[key]);
+        pending.freshness = freshness;
+      }
+
+      // Remove the entities that neither a root entity nor a result list
+      // reaches from the pending changes
+      function removeGarbage(pending: PendingTransaction): EntityReference[] {
+        const { draft } = pending;
+        const lists = pending.lists ?? store.lists();
+        const garbage = findGarbage(draft.finish(), schemas, {
+          retention: config.garbageCollection?.retention,
+          keep: Object.values(lists).flatMap(({ type, ids }) =>
+            ids.map((id) => ({ type, id }))
+          ),
+        });
+        garbage.forEach(({ type, id }) => draft.remove(type, id));
+        forgetFreshness(pending, garbage);
+        return garbage;
+      }
+
+      // Store the collected changes, after checking the changed entities
+      function commit(pending: PendingTransaction): void {
+        if (config.garbageCollection?.auto) {
+          removeGarbage(pending);
+        }
+
+        const { draft, changed, lists, freshness, requests } = pending;
+        const updatedEntities = draft.finish();
+        checkIntegrity(updatedEntities, changed);
+        patchState(store, {
+          entities: updatedEntities,
+          ...(lists && { lists }),
+          ...(freshness && { freshness }),
+          ...(requests && { requests }),
+        });
+      }
+
+      // Apply a change, reporting a thrown error as a failed result
+      function attempt<R>(
+        apply: (pending: PendingTransaction) => OperationResult<R>,
+        pending: PendingTransaction
+      ): OperationResult<R> {
+        try {
+          return apply(pending);
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }
+
+      // Apply a change to the active transaction, or to new pending changes
+      // that are committed right away when the change succeeds
+      function mutate<R>(
+        apply: (pending: PendingTransaction) => OperationResult<R>
+      ): OperationResult<R> {
+        if (activeTransaction) {
+          const result = attempt(apply, activeTransaction);
+          if (!result.success) {
+            activeTransaction.error ??= result.error;
           }
+          return result;
+        }
 
-          const ids = Object.keys(entities[entityType]);
-          return denormalize<E>(
-            ids as EntityId[],
-            entityType,
-            entities,
-            schemas
-          ) as E[];
+        const pending: PendingTransaction = {
+          draft: createEntitiesDraft(store.entities()),
+          changed: [],
+        };
+        const result = attempt(apply, pending);
+        if (result.success) {
+          commit(pending);
+        }
+        return result;
+      }
+
+      // Loads running per request state key
+      const runningLoads: Record<string, number> = {};
+
+      // Apply changes to the request states of an entity type or entities.
+      // The status stays pending while a load is running, and otherwise
+      // follows from the outcome of the last load
+      function changeRequests(
+        current: Record<string, RequestState>,
+        keys: string[],
+        changes: Partial<Omit<RequestState, 'status'>> = {}
+      ): Record<string, RequestState> {
+        const requests = { ...current };
+
+        keys.forEach((key) => {
+          const request = { ...(requests[key] ?? idleRequest), ...changes };
+          const settled: RequestStatus =
+            request.error !== null
+              ? 'error'
+              : request.loadedAt !== null
+                ? 'success'
+                : 'idle';
+          requests[key] = {
+            ...request,
+            status: (runningLoads[key] ?? 0) > 0 ? 'pending' : settled,
+          };
         });
+
+        return requests;
       }
 
-      // Create a method to normalize and add data
-      function addNormalizedData<E>(data: E | E[], entityType: string): void {
-        // Set loading state
-        const loadingState = { ...store.loading() };
-        loadingState[entityType] = true;
-        patchState(store, { loading: loadingState });
+      // Update the request states of an entity type or entities
+      function updateRequests(
+        keys: string[],
+        changes: Partial<Omit<RequestState, 'status'>> = {}
+      ): void {
+        patchState(store, {
+          requests: changeRequests(store.requests(), keys, changes),
+        });
+      }
+
+      // Record a failed load, a successful one is recorded with its data
+      function failRequests(keys: string[], error: unknown): void {
+        updateRequests(keys, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      // Count a load as running or finished
+      function trackLoads(keys: string[], delta: 1 | -1): void {
+        keys.forEach(
+          (key) => (runningLoads[key] = (runningLoads[key] ?? 0) + delta)
+        );
+        updateRequests(keys);
+      }
+
+      // Create a method to normalize and add data. Stored data is recorded
+      // as loaded in the request state of the entity type, a rejected write
+      // leaves the request state alone
+      function addNormalizedData<K extends EntityTypeKey<T>>(
+        data: unknown,
+        entityType: K,
+        options: AddOptions = {}
+      ): OperationResult<void> {
+        return storeNormalizedData(data, entityType, options, [entityType]);
+      }
+
+      // Normalize data and write it to the store according to the write mode,
+      // recording the data as loaded for the request state keys along with it
+      function storeNormalizedData(
+        data: unknown,
+        entityType: string,
+        options: AddOptions,
+        keys: string[]
+      ): OperationResult<void> {
+        const mode = options.mode ?? 'upsert';
 
         try {
-          // Normalize the data
-          const normalizedData = normalize(data, entityType, schemas);
-
-          // Update the entities
-          const updatedEntities = { ...store.entities() };
-
-          // Merge the normalized entities into the store
-          Object.entries(normalizedData.entities).forEach(
-            ([type, entities]) => {
-              updatedEntities[type] = {
-                ...updatedEntities[type],
-                ...entities,
-              };
+          return mutate((pending) => {
+            const written = writeNormalizedData(
+              pending,
+              data,
+              entityType,
+              options,
+              mode
+            );
+            if (written.success) {
+              pending.requests = changeRequests(
+                pending.requests ?? store.requests(),
+                keys,
+                { error: null, loadedAt: Date.now() }
+              );
             }
+            return written;
+          });
+        } catch (error) {
+          return {
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Unknown error adding data',
+          };
+        }
+      }
+
+      // Merge normalized entities into the draft, or replace those of the
+      // replaced types, and keep the inverse sides of their relationships
+      // consistent
+      function mergeNormalizedEntities(
+        draft: EntitiesDraft,
+        normalized: Record<string, EntityMap<unknown>>,
+        merge: MergeStrategy | undefined,
+        replaces: (type: string) => boolean
+      ): EntityReference[] {
+        const merged: {
+          type: string;
+          id: EntityId;
+          previous: unknown;
+          next: unknown;
+        }[] = [];
+
+        Object.entries(normalized).forEach(([type, entities]) => {
+          const strategy = resolveMergeStrategy(schemas[type], merge);
+
+          Object.entries(entities).forEach(([key, entity]) => {
+            const previous = draft.get(type, key);
+            const next = replaces(type)
+              ? entity
+              : mergeEntity(previous, entity, strategy);
+            draft.set(type, key, next);
+
+            // Link by the ID of the entity, the key of the map is a string
+            const id = selectEntityId(schemas[type], next) ?? key;
+            merged.push({ type, id, previous, next });
+          });
+        });
+
+        merged.forEach(({ type, id, previous, next }) =>
+          syncInverseRelationships(
+            draft,
+            schemas,
+            inverses,
+            type,
+            id,
+            previous,
+            next
+          )
+        );
+
+        return merged.map(({ type, id }) => ({ type, id }));
+      }
+
+      // Write normalized data to the pending changes
+      function writeNormalizedData(
+        pending: PendingTransaction,
+        data: unknown,
+        entityType: string,
+        options: AddOptions,
+        mode: WriteMode
+      ): OperationResult<void> {
+        const { draft, changed } = pending;
+
+        // Normalize the data
+        const normalizedData = normalize(data, entityType, schemas, options);
+        const added = normalizedData.entities[entityType] ?? {};
+
+        // Refuse to overwrite existing entities in add mode
+        if (mode === 'add') {
+          const existing = Object.keys(added).find((id) =>
+            draft.has(entityType, id)
           );
+          if (existing !== undefined) {
+            return {
+              success: false,
+              error: `Entity with ID ${existing} already exists in collection ${entityType}`,
+            };
+          }
+        }
 
-          // Update the store
-          patchState(store, { entities: updatedEntities });
-        } finally {
-          // Reset loading state
-          const loadingState = { ...store.loading() };
-          loadingState[entityType] = false;
-          patchState(store, { loading: loadingState });
+        // Merge the normalized entities into the store, the entities of the
+        // added type are replaced as a whole in the replacing modes
+        const replacing = mode === 'replace' || mode === 'setAll';
+        const stored = mergeNormalizedEntities(
+          draft,
+          normalizedData.entities,
+          options.merge,
+          (type) => replacing && type === entityType
+        );
+        changed.push(...stored);
+
+        // Record the stored entities as freshly fetched
+        const fetchedAt = Date.now();
+        const freshness = { ...(pending.freshness ?? store.freshness()) };
+        stored.forEach(({ type, id }) => {
+          freshness[`${type}:${id}`] = { fetchedAt, invalidated: false };
+        });
+        pending.freshness = freshness;
+
+        // Remove the entities of the type that are not in the payload
+        if (mode === 'setAll') {
+          for (const [id] of draft.entries(entityType)) {
+            if (id in added || !draft.has(entityType, id)) {
+              continue;
+            }
+            const removed = removeWithPolicies(
+              draft,
+              schemas,
+              incoming,
+              inverses,
+              { type: entityType, id }
+            );
+            if (!removed.success) {
+              return removed;
+            }
+            forgetFreshness(pending, removed.data);
+          }
+        }
+
+        // Keep the IDs of the payload in their order
+        if (options.list !== undefined) {
+          const lists = pending.lists ?? store.lists();
+          const result = normalizedData.result;
+          pending.lists = {
+            ...lists,
+            [options.list]: writeResultList(
+              options.list,
+              lists[options.list],
+              entityType,
+              Array.isArray(result) ? result : [result as EntityId],
+              options.listMode ?? 'replace'
+            ),
+          };
         }
+
+        return { success: true, data: undefined };
+      }
+
+      // Create a method to remove the entities that are no longer reachable
+      function collectGarbage(): OperationResult<EntityReference[]> {
+        return mutate((pending) => ({
+          success: true,
+          data: removeGarbage(pending),
+        }));
+      }
+
+      // Create a method to check whether an entity has to be fetched again
+      function isStale<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier
+      ): boolean {
+        const id = resolveId(entityType, identifier);
+        const freshness = activeTransaction?.freshness ?? store.freshness();
+        return (
+          id !== undefined &&
+          isEntityStale(
+            schemas[entityType].ttl,
+            freshness[`${entityType}:${id}`],
+            store._now()
+          )
+        );
+      }
+
+      // Create a method to mark an entity, or all entities of a type, as
+      // stale without removing them. IDs that are not stored are skipped
+      function invalidate<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier?: EntityIdentifier
+      ): void {
+        mutate((pending) => {
+          const ids =
+            identifier === undefined
+              ? pending.draft.entries(entityType).map(([id]) => id)
+              : [resolveId(entityType, identifier)].filter(
+                  (id): id is EntityId =>
+                    id !== undefined && pending.draft.has(entityType, id)
+                );
+          if (ids.length === 0) {
+            return { success: true, data: undefined };
+          }
+
+          const freshness = { ...(pending.freshness ?? store.freshness()) };
+          ids.forEach((id) => {
+            const key = `${entityType}:${id}`;
+            freshness[key] = {
+              fetchedAt: freshness[key]?.fetchedAt ?? null,
+              invalidated: true,
+            };
+          });
+          pending.freshness = freshness;
+          return { success: true, data: undefined };
+        });
+      }
+
+      // Create a method to remove a named result list, leaving its entities
+      // to the garbage collection
+      function removeList(name: string): void {
+        mutate((pending) => {
+          const lists = pending.lists ?? store.lists();
+          if (name in lists) {
+            const remaining = { ...lists };
+            delete remaining[name];
+            pending.lists = remaining;
+          }
+          return { success: true, data: undefined };
+        });
       }
 
       // Create a method to remove an entity
-      function removeEntity(entityType: string, id: EntityId): void {
-        const entities = { ...store.entities() };
-        if (!entities[entityType] || !entities[entityType][id]) {
-          return;
+      function removeEntity<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier
+      ): OperationResult<EntityReference[]> {
+        const id = resolveId(entityType, identifier);
+        if (id === undefined) {
+          return mutate(() => ({
+            success: false,
+            error: `Entity with ID ${JSON.stringify(identifier)} not found in collection ${entityType}`,
+          }));
         }
 
-        // Create a copy of the entity map without the entity to remove
-        const entityMap = { ...entities[entityType] };
-        delete entityMap[id];
+        // Remove the entity and apply the delete policies of the
+        // relationships referencing it
+        return mutate((pending) => {
+          const removed = removeWithPolicies(
+            pending.draft,
+            schemas,
+            incoming,
+            inverses,
+            { type: entityType, id }
+          );
+          if (removed.success) {
+            forgetFreshness(pending, removed.data);
+          }
+          return removed;
+        });
+      }
+
+      // Create a method to update an entity
+      function updateEntity<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier,
+        changes: Partial<NormalizableEntity<T, K>>
+      ): OperationResult<EntityOf<T, K>> {
+        const id = resolveId(entityType, identifier);
+
+        try {
+          return mutate(({ draft, changed }) => {
+            const previous =
+              id === undefined ? undefined : draft.get(entityType, id);
+            if (id === undefined || !previous) {
+              return {
+                success: false,
+                error: `Entity with ID ${id ?? JSON.stringify(identifier)} not found in collection ${entityType}`,
+              };
+            }
+
+            // Normalize the updated entity, so nested related entities in
+            // the changes are stored in their collections and replaced by
+            // references
+            const normalizedData = normalize(
+              { ...(previous as object), ...changes },
+              entityType,
+              schemas
+            );
+            const collection = normalizedData.entities[entityType];
+            const updated = collection[normalizedData.result as EntityId];
+            delete collection[normalizedData.result as EntityId];
+
+            // Store the related entities, then the entity itself
+            changed.push(
+              ...mergeNormalizedEntities(
+                draft,
+                normalizedData.entities,
+                undefined,
+                () => false
+              )
+            );
+            draft.set(entityType, id, updated);
 
-        // Update the entities
-        entities[entityType] = entityMap;
+            // Keep the inverse sides of the changed relationships consistent
+            syncInverseRelationships(
+              draft,
+              schemas,
+              inverses,
+              entityType,
+              id,
+              previous,
+              updated
+            );
 
-        // Update the store
-        patchState(store, { entities });
+            changed.push({ type: entityType, id });
+            return {
+              success: true,
+              data: updated as EntityOf<T, K>,
+            };
+          });
+        } catch (error) {
+          return {
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Unknown error updating entity',
+          };
+        }
       }
 
-      // Create a method to update an entity
-      function updateEntity<E>(
-        entityType: string,
-        id: EntityId,
-        changes: Partial<E>
-      ): OperationResult<E> {
-        const entities = { ...store.entities() };
-        if (!entities[entityType] || !entities[entityType][id]) {
+      // Apply relationship changes to entities of a type as one change,
+      // returning the entity changed last
+      function changeRelations<K extends EntityTypeKey<T>>(
+        entityType: K,
+        key: RelationshipKey<T, K>,
+        edits: [EntityIdentifier, RelationEdit][]
+      ): OperationResult<EntityOf<T, K>> {
+        try {
+          return mutate(({ draft, changed }) => {
+            let result: OperationResult<unknown> = {
+              success: true,
+              data: undefined,
+            };
+
+            for (const [identifier, edit] of edits) {
+              const id = resolveId(entityType, identifier);
+              result =
+                id === undefined
+                  ? {
+                      success: false,
+                      error: `Entity with ID ${JSON.stringify(identifier)} not found in collection ${entityType}`,
+                    }
+                  : editRelation(
+                      draft,
+                      schemas,
+                      inverses,
+                      { type: entityType, id },
+                      key,
+                      edit
+                    );
+              if (!result.success) {
+                return result;
+              }
+              changed.push({ type: entityType, id: id as EntityId });
+            }
+
+            return result as OperationResult<EntityOf<T, K>>;
+          });
+        } catch (error) {
           return {
             success: false,
-            error: `Entity with ID ${id} not found in collection ${entityType}`,
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Unknown error changing relationship',
           };
         }
+      }
+
+      // Create a method to add a related entity to a hasMany relationship
+      function addRelation<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier,
+        key: RelationshipKey<T, K>,
+        related: EntityIdentifier,
+        index?: number
+      ): OperationResult<EntityOf<T, K>> {
+        return changeRelations(entityType, key, [
+          [identifier, { op: 'add', related, index }],
+        ]);
+      }
+
+      // Create a method to remove a related entity from a relationship
+      function removeRelation<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier,
+        key: RelationshipKey<T, K>,
+        related: EntityIdentifier
+      ): OperationResult<EntityOf<T, K>> {
+        return changeRelations(entityType, key, [
+          [identifier, { op: 'remove', related }],
+        ]);
+      }
+
+      // Create a method to move a related entity from the hasMany
+      // relationship of one entity to the same relationship of another,
+      // returning the new parent
+      function moveRelation<K extends EntityTypeKey<T>>(
+        entityType: K,
+        from: EntityIdentifier,
+        to: EntityIdentifier,
+        key: RelationshipKey<T, K>,
+        related: EntityIdentifier,
+        index?: number
+      ): OperationResult<EntityOf<T, K>> {
+        return changeRelations(entityType, key, [
+          [from, { op: 'remove', related }],
+          [to, { op: 'add', related, index }],
+        ]);
+      }
+
+      // Create a method to move a related entity to another position of a
+      // hasMany relationship
+      function reorderRelation<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier,
+        key: RelationshipKey<T, K>,
+        related: EntityIdentifier,
+        index: number
+      ): OperationResult<EntityOf<T, K>> {
+        return changeRelations(entityType, key, [
+          [identifier, { op: 'reorder', related, index }],
+        ]);
+      }
+
+      // Create a method to point a hasOne relationship at another entity, or
+      // clear it with null
+      function setRelation<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier,
+        key: RelationshipKey<T, K>,
+        related: EntityIdentifier | null
+      ): OperationResult<EntityOf<T, K>> {
+        return changeRelations(entityType, key, [
+          [identifier, { op: 'set', related }],
+        ]);
+      }
+
+      // Create a method to apply several changes as one state transition
+      function transaction<R>(fn: () => R): OperationResult<R> {
+        // Nested transactions are part of the outer one
+        if (activeTransaction) {
+          const pending = activeTransaction;
+          const data = fn();
+          return pending.error === undefined
+            ? { success: true, data }
+            : { success: false, error: pending.error };
+        }
+
+        const pending: PendingTransaction = {
+          draft: createEntitiesDraft(store.entities()),
+          changed: [],
+        };
+        activeTransaction = pending;
 
         try {
-          // Create a copy of the entity map
-          const entityMap = { ...entities[entityType] };
+          const data = fn();
+          activeTransaction = null;
+
+          // Roll back when any change failed
+          if (pending.error !== undefined) {
+            return { success: false, error: pending.error };
+          }
 
-          // Update the entity
-          entityMap[id] = {
-            ...(entityMap[id] as object),
-            ...changes,
+          commit(pending);
+          return { success: true, data };
+        } catch (error) {
+          return {
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Unknown error in transaction',
           };
+        } finally {
+          activeTransaction = null;
+        }
+      }
+
+      // Create a method to apply a list of operations as one transaction
+      function batch(
+        operations: NormalizationOperation<T>[]
+      ): OperationResult<void> {
+        return transaction(() =>
+          operations.forEach((operation) => {
+            switch (operation.op) {
+              case 'add':
+                addNormalizedData(
+                  operation.data,
+                  operation.entityType,
+                  operation.options
+                );
+                break;
+              case 'update':
+                updateEntity(
+                  operation.entityType,
+                  operation.id,
+                  operation.changes
+                );
+                break;
+              case 'remove':
+                removeEntity(operation.entityType, operation.id);
+                break;
+            }
+          })
+        );
+      }
+
+      // Count the optimistic changes awaiting confirmation per entity
+      function trackPending(patches: EntityPatch[], delta: 1 | -1): void {
+        const pending = { ...store.pending() };
+        patches.forEach(({ type, id }) => {
+          const key = `${type}:${id}`;
+          const count = (pending[key] ?? 0) + delta;
+          if (count > 0) {
+            pending[key] = count;
+          } else {
+            delete pending[key];
+          }
+        });
+        patchState(store, { pending });
+      }
 
-          // Update the entities
-          entities[entityType] = entityMap;
+      // Start the request of an optimistic change and wait for its result
+      function settle<R>(request: OptimisticRequest<R>): Promise<R> {
+        try {
+          const source = typeof request === 'function' ? request() : request;
+          return isObservable(source)
+            ? lastValueFrom(source, { defaultValue: undefined as R })
+            : Promise.resolve(source);
+        } catch (error) {
+          return Promise.reject(error);
+        }
+      }
 
-          // Update the store
-          patchState(store, { entities });
+      // Number of optimistic changes so far, identifying each of them
+      let optimisticChanges = 0;
 
+      // Create a method to apply changes before a request confirms them
+      async function optimistic<R>(
+        mutation: () => unknown,
+        request: OptimisticRequest<R>
+      ): Promise<OperationResult<R>> {
+        if (activeTransaction) {
           return {
-            success: true,
-            data: entityMap[id] as E,
+            success: false,
+            error: 'Optimistic changes cannot be made inside a transaction',
           };
+        }
+
+        // Apply the changes right away and remember what they changed
+        const id = ++optimisticChanges;
+        const before = store.entities();
+        const applied = store._changeCauses.run(
+          { kind: 'optimistic', id },
+          () => transaction(mutation)
+        );
+        if (!applied.success) {
+          return applied;
+        }
+        const patches = diffEntities(before, store.entities());
+        trackPending(patches, 1);
+
+        try {
+          const data = await settle(request);
+          trackPending(patches, -1);
+          return { success: true, data };
         } catch (error) {
+          // Revert the changes, keeping what changed since
+          trackPending(patches, -1);
+          store._changeCauses.run({ kind: 'rollback', id, patches }, () =>
+            patchState(store, {
+              entities: revertPatches(store.entities(), patches),
+            })
+          );
           return {
             success: false,
             error:
               error instanceof Error
                 ? error.message
-                : 'Unknown error updating entity',
+                : 'Unknown error in optimistic request',
           };
         }
       }
 
+      // Create a method to update an entity before a request confirms it
+      function optimisticUpdate<K extends EntityTypeKey<T>, R>(
+        entityType: K,
+        identifier: EntityIdentifier,
+        changes: Partial<NormalizableEntity<T, K>>,
+        request: OptimisticRequest<R>
+      ): Promise<OperationResult<R>> {
+        return optimistic(
+          () => updateEntity(entityType, identifier, changes),
+          request
+        );
+      }
+
+      // Create a method to check for unconfirmed optimistic changes
+      function isPending<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier: EntityIdentifier
+      ): boolean {
+        const id = resolveId(entityType, identifier);
+        return id !== undefined && !!store.pending()[`${entityType}:${id}`];
+      }
+
+      // Loaders per entity type and strategy, created on first use
+      const injector = inject(Injector);
+      const loaders = new Map<string, RxMethod<LoadRequest>>();
+
+      // Create the loader handling the loads of one entity type and strategy
+      function createLoader(
+        entityType: EntityTypeKey<T>,
+        strategy: LoadStrategy
+      ): RxMethod<LoadRequest> {
+        return rxMethod<LoadRequest>(
+          flattenLoads(strategy, ({ source, options, keys }: LoadRequest) =>
+            defer(() => {
+              trackLoads(keys, 1);
+              return typeof source === 'function' ? from(source()) : source;
+            }).pipe(
+              tapResponse({
+                next: (data) => {
+                  const result = storeNormalizedData(
+                    data,
+                    entityType,
+                    options,
+                    keys
+                  );
+                  if (!result.success) {
+                    failRequests(keys, result.error);
+                  }
+                },
+                error: (error) => failRequests(keys, error),
+                finalize: () => trackLoads(keys, -1),
+              })
+            )
+          ),
+          { injector }
+        );
+      }
+
+      // Create a method to load data asynchronously and normalize it
+      function loadNormalized<K extends EntityTypeKey<T>>(
+        entityType: K,
+        source: NormalizedSource,
+        options: LoadOptions = {}
+      ): void {
+        const { strategy = 'switch', id, ...normalizationOptions } = options;
+        const key = `${entityType}:${strategy}`;
+
+        // Track the request state of the loaded entity as well
+        const entityId =
+          id === undefined ? undefined : resolveId(entityType, id);
+        const keys =
+          entityId === undefined
+            ? [entityType]
+            : [entityType, `${entityType}:${entityId}`];
+
+        let loader = loaders.get(key);
+        if (!loader) {
+          loader = createLoader(entityType, strategy);
+          loaders.set(key, loader);
+        }
+        loader({ source, options: normalizationOptions, keys });
+      }
+
+      // Create a method to read the request state of an entity type, or of
+      // an entity loaded with the `id` option of `loadNormalized`
+      function getRequestState<K extends EntityTypeKey<T>>(
+        entityType: K,
+        identifier?: EntityIdentifier
+      ): RequestState {
+        if (identifier === undefined) {
+          return store.requests()[entityType] ?? idleRequest;
+        }
+
+        const id = resolveId(entityType, identifier);
+        return id === undefined
+          ? idleRequest
+          : (store.requests()[`${entityType}:${id}`] ?? idleRequest);
+      }
+
+      // Create a method to cancel the running and waiting loads of a type,
+      // or of all types
+      function cancelLoads(entityType?: EntityTypeKey<T>): void {
+        loaders.forEach((loader, key) => {
+          if (!entityType || key.startsWith(`${entityType}:`)) {
+            loader.destroy();
+            loaders.delete(key);
+          }
+        });
+      }
+
+      // Signals of single collections, which keep their value while other
+      // collections change
+      const collections = new Map<string, Signal<EntityMap<unknown>>>();
+      function selectCollection(
+        entityType: string
+      ): Signal<EntityMap<unknown>> {
+        let collection = collections.get(entityType);
+        if (!collection) {
+          collection = computed(() => store.entities()[entityType] ?? {});
+          collections.set(entityType, collection);
+        }
+        return collection;
+      }
+
+      // Create a method to query the denormalized entities of a type
+      function selectQuery<
+        K extends EntityTypeKey<T>,
+        const P extends EntityProjection<T, K> | undefined = undefined,
+      >(
+        entityType: K,
+        query: EntityQuery<DenormalizedResult<T, K, P>, P> = {}
+      ): Signal<DenormalizedResult<T, K, P>[]> {
+        const { where, orderBy, offset, limit, ...options } = query;
+
+        // Only the collections the query reads trigger a recomputation
+        const involved = [
+          ...collectQueryTypes(schemas, entityType, options.include),
+        ].map((type) => [type, selectCollection(type)] as const);
+
+        return computed(
+          () => {
+            const entities: Record<string, EntityMap<unknown>> = {};
+            involved.forEach(([type, collection]) => {
+              entities[type] = collection();
+            });
+
+            const denormalized = denormalize<DenormalizedResult<T, K, P>>(
+              Object.keys(entities[entityType]) as EntityId[],
+              entityType,
+              entities,
+              schemas,
+              { cache: denormalizationCache, ...options }
+            ) as DenormalizedResult<T, K, P>[];
+
+            return applyQuery(denormalized, { where, orderBy, offset, limit });
+          },
+          { equal: haveSameElements }
+        );
+      }
+
+      // Create a method to get the denormalized entities of a named result
+      // list in the order of the list. Entities removed since are skipped
+      function selectList<
+        K extends EntityTypeKey<T>,
+        const P extends EntityProjection<T, K> | undefined = undefined,
+      >(
+        entityType: K,
+        name: string,
+        options?: ProjectionOptions<P>
+      ): Signal<DenormalizedResult<T, K, P>[]> {
+        return computed(
+          () => {
+            const list = store.lists()[name];
+            if (!list || list.type !== entityType) {
+              return [];
+            }
+
+            return denormalize<DenormalizedResult<T, K, P>>(
+              list.ids,
+              entityType,
+              store.entities(),
+              schemas,
+              { cache: denormalizationCache, ...options }
+            ) as DenormalizedResult<T, K, P>[];
+          },
+          { equal: haveSameElements }
+        );
+      }
+
       // Create a selector method for denormalized data signals
-      function selectDenormalized<E>(entityType: string): Signal<E[]>;
-      function selectDenormalized<E>(
-        entityType: string,
-        id: EntityId
-      ): Signal<E | null>;
-      function selectDenormalized<E>(
-        entityType: string,
-        id?: EntityId
-      ): Signal<E[] | E | null> {
-        if (id === undefined) {
+      function selectDenormalized<
+        K extends EntityTypeKey<T>,
+        const P extends EntityProjection<T, K> | undefined = undefined,
+      >(
+        entityType: K,
+        options?: ProjectionOptions<P>
+      ): Signal<DenormalizedResult<T, K, P>[]>;
+      function selectDenormalized<
+        K extends EntityTypeKey<T>,
+        const P extends EntityProjection<T, K> | undefined = undefined,
+      >(
+        entityType: K,
+        id: EntityId | readonly EntityId[],
+        options?: ProjectionOptions<P>
+      ): Signal<DenormalizedResult<T, K, P> | null>;
+      function selectDenormalized<
+        K extends EntityTypeKey<T>,
+        P extends EntityProjection<T, K> | undefined,
+      >(
+        entityType: K,
+        idOrOptions?: EntityId | readonly EntityId[] | ProjectionOptions<P>,
+        options?: ProjectionOptions<P>
+      ): Signal<
+        DenormalizedResult<T, K, P>[] | DenormalizedResult<T, K, P> | null
+      > {
+        if (isDenormalizationOptions(idOrOptions)) {
           // Return signal for all entities of the type
-          return getDenormalizedEntities<E>(entityType);
+          return getDenormalizedEntities(entityType, idOrOptions);
         } else {
           // Return signal for a single entity
-          return getDenormalizedEntity<E>(entityType, id);
+          return getDenormalizedEntity(entityType, idOrOptions, options);
         }
       }
 
@@ -245,8 +1644,65 @@ export function withNormalization<T extends EntitySchemaMap>(schemas: T) {
         getDenormalizedEntities,
         selectDenormalized,
         addNormalizedData,
+        removeList,
+        collectGarbage,
+        isStale,
+        invalidate,
         removeEntity,
         updateEntity,
+        addRelation,
+        removeRelation,
+        moveRelation,
+        reorderRelation,
+        setRelation,
+        transaction,
+        batch,
+        optimistic,
+        optimisticUpdate,
+        isPending,
+        loadNormalized,
+        cancelLoads,
+        getRequestState,
+        selectQuery,
+        selectList,
+      };
+    }),
+
+    // Advance the clock when the next entity expires
+    withHooks((store) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      // Schedule the next tick of the clock, if any entity expires
+      const schedule = () => {
+        clearTimeout(timer);
+        const now = Date.now();
+        const next = findNextExpiry(
+          store.entities(),
+          schemas,
+          store.freshness(),
+          now
+        );
+        if (next !== undefined) {
+          // Delays beyond the timer limit are shortened to the limit
+          timer = setTimeout(
+            () => {
+              store._now.set(Date.now());
+              schedule();
+            },
+            Math.min(next - now, 2 ** 31 - 1)
+          );
+        }
+      };
+
+      return {
+        onInit() {
+          if (entityTypes.some((type) => schemas[type].ttl !== undefined)) {
+            watchState(store, schedule);
+          }
+        },
+        onDestroy() {
+          clearTimeout(timer);
+        },
       };
     })
   );
@@ -1,4 +1,4 @@
-import { signalStore, withMethods } from '@ngrx/signals';
+import { signalStore, type, withMethods } from '@ngrx/signals';
 import type {
   Comment,
   Post,
@@ -11,19 +11,30 @@ import {
   hasMany,
   hasOne,
   withNormalization,
+  withNormalizationHistory,
 } from './features/normalization';
 
 // Define the schemas for our entities using the utility functions
 const schemas = {
-  users: createEntitySchema<User>('username'),
+  users: createEntitySchema({
+    entity: type<User>(),
+    idKey: 'username',
+  }),
 
-  comments: createEntitySchema<Comment>('id', {
-    author: hasOne('users'),
+  comments: createEntitySchema({
+    entity: type<Comment>(),
+    relationships: {
+      author: hasOne('users', { onDelete: 'restrict' }),
+      post: hasOne('posts', { inverse: 'comments', onDelete: 'cascade' }),
+    },
   }),
 
-  posts: createEntitySchema<Post>('id', {
-    author: hasOne('users'),
-    comments: hasMany('comments'),
+  posts: createEntitySchema({
+    entity: type<Post>(),
+    relationships: {
+      author: hasOne('users', { onDelete: 'restrict' }),
+      comments: hasMany('comments', { inverse: 'post' }),
+    },
   }),
 };
 
@@ -75,41 +86,47 @@ export const NormalizedBlogStore = signalStore(
   // Use the normalization feature with our schemas
   withNormalization(schemas),
 
+  // Allow edits to be undone
+  withNormalizationHistory({ maxSize: 50 }),
+
   // Add methods specific to our blog application
   withMethods((store) => ({
     // Load the sample blog data
     loadSampleData(): void {
       store.addNormalizedData(sampleBlogData, 'posts');
+
+      // Loading the data is not an edit that can be undone
+      store.clearHistory();
     },
 
     // Get all posts with denormalized data
     getAllPosts(): DenormalizedPost[] {
-      return store.selectDenormalized<DenormalizedPost>('posts')();
+      return store.selectDenormalized('posts')();
     },
 
     // Get a single post by ID with denormalized data
     getPostById(postId: string): DenormalizedPost | null {
-      return store.selectDenormalized<DenormalizedPost>('posts', postId)();
+      return store.selectDenormalized('posts', postId)();
     },
 
     // Get all users with denormalized data
     getAllUsers(): User[] {
-      return store.selectDenormalized<User>('users')();
+      return store.selectDenormalized('users')();
     },
 
     // Get a single user by username
     getUserByUsername(username: string): User | null {
-      return store.selectDenormalized<User>('users', username)();
+      return store.selectDenormalized('users', username)();
     },
 
     // Get all comments with denormalized data
     getAllComments(): DenormalizedComment[] {
-      return store.selectDenormalized<DenormalizedComment>('comments')();
+      return store.selectDenormalized('comments')();
     },
 
     // Get a single comment by ID
     getCommentById(commentId: string): DenormalizedComment | null {
-      return store.selectDenormalized<DenormalizedComment>(
+      return store.selectDenormalized(
         'comments',
         commentId
       )();
@@ -126,7 +143,7 @@ export const NormalizedBlogStore = signalStore(
       return post.comments
         .map((comment) =>
           typeof comment === 'string'
-            ? store.selectDenormalized<DenormalizedComment>(
+            ? store.selectDenormalized(
                 'comments',
                 comment
               )()
@@ -140,70 +157,68 @@ export const NormalizedBlogStore = signalStore(
       // Generate a unique ID for the comment
       const commentId = `comment${Date.now()}`;
 
-      // Create the full comment object
+      // Create the full comment object, the post picks up the comment
+      // through the inverse relationship
       const newComment: Comment = {
         ...comment,
         id: commentId,
+        post: postId,
       };
 
-      // Add the comment to the store
-      store.addNormalizedData(newComment, 'comments');
-
-      // Get the post
-      const post = store.getEntityById<Post>('posts', postId);
-      if (post) {
-        // Update the post to include the new comment
-        const result = store.updateEntity<Post>('posts', postId, {
-          comments: [...post.comments, commentId],
-        });
-
-        if (!result.success) {
-          console.error(
-            `Failed to update post with new comment: ${result.error}`
-          );
-        }
+      // Add the comment to the store, refusing to overwrite an existing one
+      const result = store.addNormalizedData(newComment, 'comments', {
+        mode: 'add',
+      });
+      if (!result.success) {
+        console.error(`Failed to add comment: ${result.error}`);
+      }
+    },
+
+    // Move a comment to another post, the comment follows through the
+    // inverse relationship
+    moveComment(commentId: string, fromPostId: string, toPostId: string): void {
+      const result = store.moveRelation(
+        'posts',
+        fromPostId,
+        toPostId,
+        'comments',
+        commentId
+      );
+      if (!result.success) {
+        console.error(`Failed to move comment: ${result.error}`);
       }
     },
 
     // Update a user's name
     updateUserName(username: string, name: string): void {
-      const result = store.updateEntity<User>('users', username, { name });
+      const result = store.updateEntity('users', username, { name });
       if (!result.success) {
         console.error(`Failed to update user: ${result.error}`);
       }
     },
 
-    // Remove a comment
+    // Remove a comment, the inverse relationship drops it from its post
     removeComment(commentId: string): void {
-      // Get all posts using the selector
-      const posts = this.getAllPosts();
-
-      // Find posts that reference this comment
-      posts.forEach((post) => {
-        const postCommentIds = post.comments
-          .filter((comment) => typeof comment === 'object')
-          .map((comment) => (comment as DenormalizedComment).id);
-
-        if (postCommentIds.includes(commentId)) {
-          // Get the original post with string IDs
-          const originalPost = store.getEntityById<Post>('posts', post.id);
-          if (originalPost) {
-            // Update the post to remove the comment reference
-            const result = store.updateEntity<Post>('posts', post.id, {
-              comments: originalPost.comments.filter((id) => id !== commentId),
-            });
-
-            if (!result.success) {
-              console.error(
-                `Failed to remove comment reference from post: ${result.error}`
-              );
-            }
-          }
-        }
-      });
+      const result = store.removeEntity('comments', commentId);
+      if (!result.success) {
+        console.error(`Failed to remove comment: ${result.error}`);
+      }
+    },
 
-      // Remove the comment
-      store.removeEntity('comments', commentId);
+    // Remove a post together with its comments
+    removePost(postId: string): void {
+      const result = store.removeEntity('posts', postId);
+      if (!result.success) {
+        console.error(`Failed to remove post: ${result.error}`);
+      }
+    },
+
+    // Remove a user, refused while posts or comments still reference them
+    removeUser(username: string): void {
+      const result = store.removeEntity('users', username);
+      if (!result.success) {
+        console.error(`Failed to remove user: ${result.error}`);
+      }
     },
   }))
 );